@@ -0,0 +1,36 @@
+import { bench } from "vitest";
+import { searchEmoji, EmojiEntry } from "./index";
+
+// The picker searches the whole dataset on every keystroke, so each of these
+// should stay well under a frame (~16ms)
+const emojiData: Record<string, EmojiEntry> = require("unicode-emoji-json");
+const entries = Object.entries(emojiData) as Array<[string, EmojiEntry]>;
+
+describe("searchEmoji over the full dataset", () => {
+  bench("name prefix (rocket)", () => {
+    searchEmoji(entries, "rocket");
+  });
+
+  bench("keyword (happy)", () => {
+    searchEmoji(entries, "happy");
+  });
+
+  bench("typo (unicron)", () => {
+    searchEmoji(entries, "unicron");
+  });
+
+  bench("several words with a typo (smiling cta)", () => {
+    searchEmoji(entries, "smiling cta");
+  });
+
+  bench("no match (zzzzzzz)", () => {
+    searchEmoji(entries, "zzzzzzz");
+  });
+
+  bench("every prefix while typing (grinning face)", () => {
+    const query = "grinning face";
+    for (let i = 1; i <= query.length; i++) {
+      searchEmoji(entries, query.slice(0, i));
+    }
+  });
+});
@@ -9,15 +9,65 @@ import {
   createIcoDirectory,
   createBitmapInfoHeader,
   convertRgbaToBgr,
+  createAndMask,
   generateIco,
+  validateIco,
+  decodeIcoEntry,
+  generate,
+  writeAssets,
+  parseBackground,
   searchEmoji,
   getDirCompletions,
+  loadConfig,
+  injectHeadSnippet,
+  applyPreset,
+  detectFramework,
+  esbuildPlugin,
+  vitePlugin,
+  webpackPlugin,
+  resolveVariants,
+  resolveEmoji,
+  applySkinTone,
   EmojiEntry,
+  GeneratedAsset,
+  GenerateOptions,
 } from "./index";
 
 const TEST_OUTPUT_DIR = path.join(__dirname, "../test-output");
 const CLI_PATH = path.join(__dirname, "../dist/index.js");
 
+// Keep the picker's recent emoji out of the real config directory
+process.env.XDG_CONFIG_HOME = path.join(TEST_OUTPUT_DIR, "config");
+const STATE_PATH = path.join(TEST_OUTPUT_DIR, "config/emojico/state.json");
+
+// Without a color emoji font every emoji renders as the missing-glyph box,
+// which emojico refuses by default. Let the rest of the suite run there
+const hasEmojiFont = (() => {
+  const render = (text: string) => {
+    const ctx = createCanvas(64, 64).getContext("2d");
+    ctx.font = `48px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif`;
+    ctx.fillText(text, 0, 48);
+    return ctx.getImageData(0, 0, 64, 64).data;
+  };
+  const apple = render("\u{1F34E}");
+  const missing = render("\u{10FFFD}");
+  return !apple.every((value, i) => value === missing[i]);
+})();
+if (!hasEmojiFont) process.env.EMOJICO_ALLOW_MISSING_GLYPHS = "1";
+
+// No emoji font ships with the repo, so font tests draw letters with a
+// monospace system font, which differs from the default fallback
+const MONO_FONT = [
+  "/usr/share/fonts/truetype/dejavu/DejaVuSansMono.ttf",
+  "/System/Library/Fonts/Supplemental/Courier New.ttf",
+  "C:\\Windows\\Fonts\\cour.ttf",
+].find((file) => fs.existsSync(file));
+const SANS_FONT = [
+  "/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf",
+  "/System/Library/Fonts/Supplemental/Arial.ttf",
+  "C:\\Windows\\Fonts\\arial.ttf",
+].find((file) => fs.existsSync(file));
+
 // Helper function to create a safe directory name from an emoji
 function getSafeDirName(emoji: string): string {
   return `emoji-${Buffer.from(emoji).toString("hex")}`;
@@ -85,6 +135,9 @@ describe("emojico CLI", () => {
       expect(fs.existsSync(path.join(TEST_OUTPUT_DIR, "og-image.png"))).toBe(
         false
       );
+      expect(
+        fs.existsSync(path.join(TEST_OUTPUT_DIR, "site.webmanifest"))
+      ).toBe(false);
     }, 30000);
 
     it("should create output directory if it doesn't exist", () => {
@@ -151,6 +204,31 @@ describe("emojico CLI", () => {
         expect(metadata.height).toBe(size);
       }
 
+      // Check the unsuffixed Apple touch icon at the root
+      const rootAppleIcon = fs.readFileSync(
+        path.join(TEST_OUTPUT_DIR, "apple-touch-icon.png")
+      );
+      expect(getPngMetadata(rootAppleIcon).width).toBe(180);
+
+      // Check Android Chrome icons
+      for (const size of [192, 512]) {
+        const filePath = path.join(
+          TEST_OUTPUT_DIR,
+          `android-chrome-${size}x${size}.png`
+        );
+        expect(fs.existsSync(filePath)).toBe(true);
+
+        const metadata = getPngMetadata(fs.readFileSync(filePath));
+        expect(metadata.width).toBe(size);
+        expect(metadata.height).toBe(size);
+      }
+
+      // Check web app manifest
+      const manifestPath = path.join(TEST_OUTPUT_DIR, "site.webmanifest");
+      expect(fs.existsSync(manifestPath)).toBe(true);
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+      expect(manifest.icons.length).toBe(4);
+
       // Check Open Graph image
       const ogImagePath = path.join(TEST_OUTPUT_DIR, "og-image.png");
       expect(fs.existsSync(ogImagePath)).toBe(true);
@@ -286,6 +364,29 @@ describe("emojico CLI", () => {
       expect(sizes.sort((a, b) => a - b)).toEqual([16, 32, 48]);
     }, 30000);
 
+    it("should accept --ico-sizes", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "ico-sizes");
+      execSync(`node ${CLI_PATH} 🍎 --out ${outDir} --ico-sizes 16,32,256`);
+
+      const ico = fs.readFileSync(path.join(outDir, "favicon.ico"));
+      expect(ico.readUInt16LE(4)).toBe(3);
+      expect(ico.readUInt8(6 + 2 * 16)).toBe(0); // 256 encoded as 0
+    }, 30000);
+
+    it("should error on malformed --ico-sizes", () => {
+      expect(() => {
+        execSync(`node ${CLI_PATH} 🍎 --ico-sizes 16,big`, { stdio: "pipe" });
+      }).toThrow();
+    });
+
+    it("should pass validation", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "ico-valid");
+      execSync(`node ${CLI_PATH} 🍎 --out ${outDir}`);
+
+      const result = validateIco(fs.readFileSync(path.join(outDir, "favicon.ico")));
+      expect(result.errors).toEqual([]);
+    }, 30000);
+
     it("should produce a non-trivial file size", () => {
       const outDir = path.join(TEST_OUTPUT_DIR, "ico-size");
       execSync(`node ${CLI_PATH} 🚀 --out ${outDir}`);
@@ -299,7 +400,7 @@ describe("emojico CLI", () => {
     it("should handle ZWJ sequences", () => {
       const outDir = path.join(TEST_OUTPUT_DIR, "zwj-test");
       execSync(
-        `node ${CLI_PATH} $'\\U0001F468\\u200D\\U0001F469\\u200D\\U0001F467' --out ${outDir}`
+        `node ${CLI_PATH} \u{1F468}\u200D\u{1F469}\u200D\u{1F467} --out ${outDir}`
       );
       expect(fs.existsSync(path.join(outDir, "favicon.ico"))).toBe(true);
     }, 30000);
@@ -348,6 +449,346 @@ describe("emojico CLI", () => {
     }, 30000);
   });
 
+  describe("manifest flags", () => {
+    it("should write manifest fields from flags", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "manifest-flags");
+      const output = execSync(
+        `node ${CLI_PATH} 🍎 --out ${outDir} --all --name "My App" --short-name App --theme-color "#ff0000" --background-color "#000000"`,
+        { encoding: "utf8" }
+      );
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(outDir, "site.webmanifest"), "utf8")
+      );
+      expect(manifest.name).toBe("My App");
+      expect(manifest.short_name).toBe("App");
+      expect(manifest.theme_color).toBe("#ff0000");
+      expect(manifest.background_color).toBe("#000000");
+      expect(output).toContain('<link rel="manifest" href="/site.webmanifest">');
+    }, 30000);
+
+    it("should write the cards listed in --social-cards", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "social-cards");
+      const output = execSync(
+        `node ${CLI_PATH} 🍎 --out ${outDir} --all --social-cards og,twitter`,
+        { encoding: "utf8" }
+      );
+      expect(fs.existsSync(path.join(outDir, "og-image.png"))).toBe(true);
+      expect(fs.existsSync(path.join(outDir, "twitter-image.png"))).toBe(true);
+      expect(output).toContain(
+        '<meta name="twitter:image" content="/twitter-image.png">'
+      );
+    }, 30000);
+
+    it("should error on an unknown --social-cards name", () => {
+      expect(() => {
+        execSync(`node ${CLI_PATH} 🍎 --all --social-cards og,myspace`, {
+          encoding: "utf8",
+          stdio: "pipe",
+        });
+      }).toThrow();
+    });
+
+    it("should error on an unknown --shape", () => {
+      expect(() => {
+        execSync(`node ${CLI_PATH} 🍎 --shape blob`, {
+          encoding: "utf8",
+          stdio: "pipe",
+        });
+      }).toThrow();
+    });
+
+    it("should error when --theme-color has no value", () => {
+      expect(() => {
+        execSync(`node ${CLI_PATH} 🍎 --all --theme-color`, {
+          encoding: "utf8",
+          stdio: "pipe",
+        });
+      }).toThrow();
+    });
+  });
+
+  describe("config file", () => {
+    const writeConfig = (dir: string, file: string, config: unknown) => {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, file), JSON.stringify(config));
+    };
+
+    it("should generate from emojico.config.json without arguments", () => {
+      const dir = path.join(TEST_OUTPUT_DIR, "config-project");
+      writeConfig(dir, "emojico.config.json", {
+        emoji: "🍎",
+        out: "public",
+        all: true,
+      });
+      const output = execSync(`node ${CLI_PATH}`, {
+        cwd: dir,
+        encoding: "utf8",
+      });
+      expect(output).toContain("Using config from emojico.config.json");
+      expect(fs.existsSync(path.join(dir, "public/favicon.ico"))).toBe(true);
+      expect(fs.existsSync(path.join(dir, "public/og-image.png"))).toBe(true);
+    }, 30000);
+
+    it("should read the emojico key of package.json", () => {
+      const dir = path.join(TEST_OUTPUT_DIR, "config-package");
+      writeConfig(dir, "package.json", {
+        name: "site",
+        emojico: { emoji: "🍋", out: "icons" },
+      });
+      execSync(`node ${CLI_PATH}`, { cwd: dir });
+      expect(fs.existsSync(path.join(dir, "icons/favicon.ico"))).toBe(true);
+    }, 30000);
+
+    it("should let flags override config values", () => {
+      const dir = path.join(TEST_OUTPUT_DIR, "config-override");
+      writeConfig(dir, "emojico.config.json", {
+        emoji: "🍎",
+        out: "public",
+        all: true,
+        manifest: { name: "From Config", themeColor: "#111111" },
+      });
+      execSync(`node ${CLI_PATH} --out build --name "From Flag"`, { cwd: dir });
+      expect(fs.existsSync(path.join(dir, "public"))).toBe(false);
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(dir, "build/site.webmanifest"), "utf8")
+      );
+      expect(manifest.name).toBe("From Flag");
+      expect(manifest.theme_color).toBe("#111111");
+    }, 30000);
+
+    it("should report invalid config values", () => {
+      const dir = path.join(TEST_OUTPUT_DIR, "config-invalid");
+      writeConfig(dir, "emojico.config.json", { emoji: "🍎", shape: "blob" });
+      expect(() =>
+        execSync(`node ${CLI_PATH}`, { cwd: dir, stdio: "pipe" })
+      ).toThrow(/"shape" must be one of: square, circle, rounded, squircle/);
+    });
+  });
+
+  describe("--inject", () => {
+    it("should add the tags to the HTML file once", () => {
+      const dir = path.join(TEST_OUTPUT_DIR, "inject");
+      fs.mkdirSync(dir, { recursive: true });
+      const htmlPath = path.join(dir, "index.html");
+      fs.writeFileSync(
+        htmlPath,
+        "<html>\n  <head>\n    <title>Hi</title>\n  </head>\n</html>\n"
+      );
+
+      const output = execSync(
+        `node ${CLI_PATH} 🍎 --out ${dir} --inject ${htmlPath}`,
+        { encoding: "utf8" }
+      );
+      expect(output).toContain("Added 1 tag to the <head>");
+      expect(output).not.toContain("Add this to your HTML <head> section");
+
+      const rerun = execSync(
+        `node ${CLI_PATH} 🍎 --out ${dir} --inject ${htmlPath}`,
+        { encoding: "utf8" }
+      );
+      expect(rerun).toContain("is already up to date");
+      const html = fs.readFileSync(htmlPath, "utf8");
+      expect(html.match(/favicon\.ico/g)).toHaveLength(1);
+    }, 30000);
+
+    it("should error when the HTML file does not exist", () => {
+      expect(() =>
+        execSync(`node ${CLI_PATH} 🍎 --inject missing.html`, {
+          stdio: "pipe",
+        })
+      ).toThrow(/HTML file not found: missing.html/);
+    });
+  });
+
+  describe("--preset", () => {
+    it("should lay out a Next.js app router project", () => {
+      const dir = path.join(TEST_OUTPUT_DIR, "preset-next");
+      const output = execSync(
+        `node ${CLI_PATH} 🍎 --out ${dir} --all --preset next`,
+        { encoding: "utf8" }
+      );
+      expect(fs.existsSync(path.join(dir, "app/favicon.ico"))).toBe(true);
+      expect(fs.existsSync(path.join(dir, "public/favicon.ico"))).toBe(false);
+      expect(fs.existsSync(path.join(dir, "public/site.webmanifest"))).toBe(
+        true
+      );
+      // Deliberately absent: Next.js would let these replace metadata.icons
+      for (const file of ["app/icon.png", "app/apple-icon.png"]) {
+        expect(fs.existsSync(path.join(dir, file))).toBe(false);
+      }
+      expect(output).toContain("Add this to app/layout.tsx:");
+      expect(output).toContain("export const metadata: Metadata = {");
+    }, 30000);
+
+    it("should error on an unknown preset", () => {
+      expect(() =>
+        execSync(`node ${CLI_PATH} 🍎 --preset nuxt`, { stdio: "pipe" })
+      ).toThrow(/--preset must be one of/);
+    });
+  });
+
+  describe("environment overlays", () => {
+    it("should write a favicon per --variants name", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "variants");
+      const output = execSync(
+        `node ${CLI_PATH} 🍎 --out ${outDir} --variants dev,staging --badge DEV`,
+        { encoding: "utf8" }
+      );
+      expect(output).toContain(
+        "Environment variants: favicon-dev.ico, favicon-staging.ico"
+      );
+      const files = ["favicon.ico", "favicon-dev.ico", "favicon-staging.ico"];
+      for (const file of files) {
+        const ico = fs.readFileSync(path.join(outDir, file));
+        expect(validateIco(ico).valid).toBe(true);
+      }
+    }, 30000);
+
+    it("should error on a non-numeric --hue", () => {
+      expect(() =>
+        execSync(`node ${CLI_PATH} 🍎 --hue warm`, { stdio: "pipe" })
+      ).toThrow(/--hue must be a number of degrees/);
+    });
+  });
+
+  describe("--skin-tone", () => {
+    it("should apply the tone and name the manifest after it", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "skin-tone");
+      execSync(`node ${CLI_PATH} 👍 --all --skin-tone medium --out ${outDir}`);
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(outDir, "site.webmanifest"), "utf8")
+      );
+      expect(manifest.name).toBe("thumbs up: medium skin tone");
+    }, 30000);
+
+    it("should error on an unknown --skin-tone", () => {
+      expect(() =>
+        execSync(`node ${CLI_PATH} 👍 --skin-tone purple`, { stdio: "pipe" })
+      ).toThrow(/--skin-tone must be one of: light, medium-light/);
+    });
+  });
+
+  describe("recent emoji", () => {
+    const readState = () => JSON.parse(fs.readFileSync(STATE_PATH, "utf8"));
+
+    it("should remember generated emoji, most recent first", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "recent");
+      execSync(`node ${CLI_PATH} 🍎 --out ${outDir}`);
+      execSync(`node ${CLI_PATH} 👍 --skin-tone medium --out ${outDir}`);
+      execSync(`node ${CLI_PATH} :red_apple: --out ${outDir}`);
+      // Letters aren't emoji, so there's nothing to offer in the picker
+      execSync(`node ${CLI_PATH} A --out ${outDir}`);
+
+      expect(readState()).toEqual({
+        recent: ["\u{1F34E}", "\u{1F44D}\u{1F3FD}"],
+        favorites: [],
+      });
+    }, 30000);
+
+    it("should keep favorites and shrug off a broken state file", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "recent");
+      fs.mkdirSync(path.dirname(STATE_PATH), { recursive: true });
+      fs.writeFileSync(STATE_PATH, "{not json");
+      execSync(`node ${CLI_PATH} 🚀 --out ${outDir}`);
+      expect(readState().recent).toEqual(["\u{1F680}"]);
+
+      fs.writeFileSync(
+        STATE_PATH,
+        JSON.stringify({ recent: [], favorites: ["\u{1F984}"] })
+      );
+      execSync(`node ${CLI_PATH} 🚀 --out ${outDir}`);
+      expect(readState()).toEqual({
+        recent: ["\u{1F680}"],
+        favorites: ["\u{1F984}"],
+      });
+    }, 30000);
+  });
+
+  describe("--font", () => {
+    it.runIf(MONO_FONT)("should draw with the given font file", () => {
+      const render = (flags: string) => {
+        const outDir = path.join(TEST_OUTPUT_DIR, "font", `${flags.length}`);
+        execSync(`node ${CLI_PATH} A --out ${outDir} ${flags}`);
+        return fs.readFileSync(path.join(outDir, "favicon.ico"));
+      };
+      const plain = render("");
+      const mono = render(`--font "${MONO_FONT}"`);
+      const named = render(
+        `--font "${MONO_FONT}" --emoji-style "${path.parse(MONO_FONT!).name}"`
+      );
+      expect(mono.equals(plain)).toBe(false);
+      expect(named.equals(mono)).toBe(true);
+    }, 30000);
+
+    it("should error on an unknown --emoji-style", () => {
+      expect(() =>
+        execSync(`node ${CLI_PATH} A --emoji-style "No Such Font"`, {
+          stdio: "pipe",
+        })
+      ).toThrow(/Unknown emoji style "No Such Font"/);
+    });
+  });
+
+  describe("composition", () => {
+    it("should compose two emoji from the argument", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "compose");
+      execSync(
+        `node ${CLI_PATH} "🍎+🚀" --out ${outDir} --compose-position top-left`
+      );
+      const ico = fs.readFileSync(path.join(outDir, "favicon.ico"));
+      expect(validateIco(ico).valid).toBe(true);
+    }, 30000);
+
+    it("should error on an unknown --compose-position", () => {
+      expect(() =>
+        execSync(`node ${CLI_PATH} "🍎+🚀" --compose-position middle`, {
+          stdio: "pipe",
+        })
+      ).toThrow(/--compose-position must be one of/);
+    });
+  });
+
+  describe("emoji names", () => {
+    it("should accept a shortcode and name the manifest after it", () => {
+      const outDir = path.join(TEST_OUTPUT_DIR, "shortcode");
+      execSync(`node ${CLI_PATH} :rocket: --all --out ${outDir}`);
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(outDir, "site.webmanifest"), "utf8")
+      );
+      expect(manifest.name).toBe("rocket");
+    }, 30000);
+
+    it("should list candidates for an ambiguous name", () => {
+      expect(() =>
+        execSync(`node ${CLI_PATH} face --out ${TEST_OUTPUT_DIR}/face`, {
+          stdio: "pipe",
+        })
+      ).toThrow(/doesn't name a single emoji[\s\S]*face_with_tears_of_joy/);
+    });
+  });
+
+  describe("input validation", () => {
+    it("should exit non-zero for text", () => {
+      expect(() =>
+        execSync(`node ${CLI_PATH} "héllo" --out ${TEST_OUTPUT_DIR}/text`, {
+          stdio: "pipe",
+        })
+      ).toThrow(/"héllo" is not an emoji/);
+    });
+
+    it.skipIf(hasEmojiFont)(
+      "should exit non-zero when no font has the glyph",
+      () => {
+        expect(() =>
+          execSync(`node ${CLI_PATH} 🍎 --out ${TEST_OUTPUT_DIR}/tofu`, {
+            stdio: "pipe",
+            env: { ...process.env, EMOJICO_ALLOW_MISSING_GLYPHS: "" },
+          })
+        ).toThrow(/No installed font has a glyph for "🍎"/);
+      }
+    );
+  });
+
   describe("error handling", () => {
     it("should error when --out has no value", () => {
       expect(() => {
@@ -394,15 +835,15 @@ describe("searchEmoji", () => {
     makeEntry("\u{1F49B}", "yellow heart"),
   ];
 
-  it("should return first 10 entries for empty query", () => {
+  it("should return every entry for empty query", () => {
     const results = searchEmoji(entries, "");
-    expect(results.length).toBe(10);
+    expect(results.length).toBe(entries.length);
     expect(results[0][1].name).toBe("grinning face");
   });
 
-  it("should return first 10 entries for whitespace-only query", () => {
+  it("should return every entry for whitespace-only query", () => {
     const results = searchEmoji(entries, "   ");
-    expect(results.length).toBe(10);
+    expect(results.length).toBe(entries.length);
   });
 
   it("should rank exact matches highest", () => {
@@ -441,12 +882,13 @@ describe("searchEmoji", () => {
     expect(results).toEqual([]);
   });
 
-  it("should return at most 10 results", () => {
+  it("should return every match", () => {
     const manyEntries = Array.from({ length: 50 }, (_, i) =>
       makeEntry(`E${i}`, `heart variant ${i}`)
     );
     const results = searchEmoji(manyEntries, "heart");
-    expect(results.length).toBe(10);
+    expect(results.length).toBe(50);
+    expect(results[0][0]).toBe("E0");
   });
 
   it("should work with real emoji data", () => {
@@ -457,6 +899,71 @@ describe("searchEmoji", () => {
     expect(results.length).toBeGreaterThan(0);
     expect(results[0][0]).toBe("\u{1F680}");
   });
+
+  it("should match keywords and aliases", () => {
+    const withAliases = [
+      ...entries,
+      makeEntry("\u{1F389}", "party popper"),
+      makeEntry("\u{1F44D}", "thumbs up"),
+    ];
+    expect(searchEmoji(withAliases, "happy").map((r) => r[0])).toContain(
+      "\u{1F600}"
+    );
+    expect(searchEmoji(withAliases, "love")[0][0]).toBe("\u2764\uFE0F");
+    expect(searchEmoji(withAliases, "tada")[0][0]).toBe("\u{1F389}");
+    expect(searchEmoji(withAliases, "+1")[0][0]).toBe("\u{1F44D}");
+  });
+
+  it("should rank name matches above keyword matches", () => {
+    // The cats and dogs only have "pet" as a keyword
+    const results = searchEmoji(
+      [...entries, makeEntry("\u{1F3EA}", "pet shop")],
+      "pet"
+    );
+    expect(results[0][1].name).toBe("pet shop");
+    expect(results.map((r) => r[1].name)).toContain("dog");
+  });
+
+  it("should tolerate small typos", () => {
+    expect(searchEmoji(entries, "aple").map((r) => r[1].name)).toEqual([
+      "red apple",
+      "green apple",
+    ]);
+    expect(searchEmoji(entries, "grinnign")[0][1].name).toBe("grinning face");
+    expect(searchEmoji(entries, "yelow hart")[0][1].name).toBe("yellow heart");
+    // Short words must match exactly
+    expect(searchEmoji(entries, "dag")).toEqual([]);
+  });
+
+  it("should find typos and keywords in the full dataset", () => {
+    const emojiData: Record<string, EmojiEntry> = require("unicode-emoji-json");
+    const realEntries = Object.entries(emojiData) as Array<[string, EmojiEntry]>;
+    const top = (query: string) =>
+      searchEmoji(realEntries, query).map((r) => r[0]);
+
+    expect(top("rocet")[0]).toBe("\u{1F680}");
+    expect(top("unicron")[0]).toBe("\u{1F984}");
+    expect(top("happy")).toContain("\u{1F600}");
+    expect(top("love")).toContain("\u2764\uFE0F");
+  });
+
+  it("should limit results to a group", () => {
+    const emojiData: Record<string, EmojiEntry> = require("unicode-emoji-json");
+    const realEntries = Object.entries(emojiData) as Array<[string, EmojiEntry]>;
+
+    const browsed = searchEmoji(realEntries, "", "Food & Drink");
+    expect(browsed.length).toBe(
+      realEntries.filter(([, entry]) => entry.group === "Food & Drink").length
+    );
+    expect(browsed.every(([, entry]) => entry.group === "Food & Drink")).toBe(
+      true
+    );
+
+    expect(
+      searchEmoji(realEntries, "red", "Food & Drink").map((r) => r[1].name)
+    ).toEqual(["red apple", "cherries", "wine glass", "hot dog"]);
+    expect(searchEmoji(realEntries, "cat", "Flags")).toEqual([]);
+  });
 });
 
 describe("getDirCompletions", () => {
@@ -625,6 +1132,74 @@ describe("CLI argument parsing", () => {
   });
 });
 
+describe("inspect command", () => {
+  const INSPECT_DIR = path.join(__dirname, "../test-output/inspect");
+
+  beforeAll(() => {
+    if (fs.existsSync(INSPECT_DIR)) fs.rmSync(INSPECT_DIR, { recursive: true });
+    execSync(
+      `node ${CLI_PATH} 🍎 --out ${INSPECT_DIR} --ico-sizes 16,32,256 --all`
+    );
+  }, 60000);
+
+  afterAll(() => {
+    if (fs.existsSync(INSPECT_DIR)) fs.rmSync(INSPECT_DIR, { recursive: true });
+  });
+
+  it("should report each ICO entry", () => {
+    const output = execSync(
+      `node ${CLI_PATH} inspect ${path.join(INSPECT_DIR, "favicon.ico")}`,
+      { encoding: "utf8" }
+    );
+    expect(output).toContain("favicon.ico: ICO, 3 images");
+    expect(output).toMatch(/0\s+16x16\s+32\s+BMP\s+\d+\s+\d+\s+yes/);
+    expect(output).toMatch(/2\s+256x256\s+32\s+PNG\s+\d+\s+\d+\s+-/);
+    expect(output).toContain("No problems found");
+  });
+
+  it("should extract entries as PNGs", () => {
+    const extractDir = path.join(INSPECT_DIR, "extracted");
+    execSync(
+      `node ${CLI_PATH} inspect ${path.join(INSPECT_DIR, "favicon.ico")} --extract ${extractDir}`
+    );
+    for (const [index, size] of [[0, 16], [1, 32], [2, 256]]) {
+      const file = path.join(extractDir, `favicon-${index}-${size}x${size}.png`);
+      expect(getPngMetadata(fs.readFileSync(file)).width).toBe(size);
+    }
+  });
+
+  it("should describe PNG files", () => {
+    const output = execSync(
+      `node ${CLI_PATH} inspect ${path.join(INSPECT_DIR, "favicons/favicon-32x32.png")}`,
+      { encoding: "utf8" }
+    );
+    expect(output).toContain("favicon-32x32.png: PNG, 32x32, 8-bit RGBA");
+  });
+
+  it("should exit non-zero and list problems for broken ICOs", () => {
+    const ico = fs.readFileSync(path.join(INSPECT_DIR, "favicon.ico"));
+    const broken = path.join(INSPECT_DIR, "broken.ico");
+    fs.writeFileSync(broken, ico.subarray(0, ico.length - 10));
+
+    let output = "";
+    try {
+      execSync(`node ${CLI_PATH} inspect ${broken}`, { encoding: "utf8" });
+    } catch (error) {
+      output = (error as { stdout: string }).stdout;
+    }
+    expect(output).toContain("1 problem:");
+    expect(output).toContain("outside the file");
+  });
+
+  it("should error for missing files", () => {
+    expect(() => {
+      execSync(`node ${CLI_PATH} inspect ${path.join(INSPECT_DIR, "nope.ico")}`, {
+        stdio: "pipe",
+      });
+    }).toThrow();
+  });
+});
+
 describe("ICO generation", () => {
   describe("parsePng", () => {
     it("should parse a PNG buffer and extract image data", async () => {
@@ -776,6 +1351,133 @@ describe("ICO generation", () => {
     });
   });
 
+  describe("createAndMask", () => {
+    it("should set bits for transparent pixels, bottom-up", () => {
+      // 2x2 image: top row opaque/transparent, bottom row transparent/opaque
+      const rgba = Buffer.alloc(16);
+      rgba.writeUInt8(255, 3);
+      rgba.writeUInt8(0, 7);
+      rgba.writeUInt8(0, 11);
+      rgba.writeUInt8(255, 15);
+
+      const mask = createAndMask(rgba, 2, 2, 4);
+
+      // Each row is padded to 4 bytes
+      expect(mask.length).toBe(8);
+      // First mask row is the bottom image row: transparent, opaque
+      expect(mask.readUInt8(0)).toBe(0b10000000);
+      // Second mask row is the top image row: opaque, transparent
+      expect(mask.readUInt8(4)).toBe(0b01000000);
+    });
+
+    it("should pad rows to 32-bit boundaries", () => {
+      const rgba = Buffer.alloc(33 * 2 * 4); // fully transparent 33x2
+      const mask = createAndMask(rgba, 33, 2, 4);
+
+      expect(mask.length).toBe(8 * 2);
+      expect(mask.readUInt32BE(0)).toBe(0xffffffff);
+      expect(mask.readUInt8(4)).toBe(0b10000000);
+      expect(mask.readUInt8(5)).toBe(0);
+    });
+  });
+
+  describe("validateIco", () => {
+    // Bitmap ICO the way older versions wrote it: doubled height, no mask
+    const createMasklessIco = () => {
+      const rgba = Buffer.alloc(16 * 16 * 4, 255);
+      const bitmap = Buffer.concat([
+        createBitmapInfoHeader(16, 16, 4, rgba.length),
+        convertRgbaToBgr(rgba, 16, 16, 4),
+      ]);
+      return Buffer.concat([
+        createIcoHeader(1),
+        createIcoDirectory(16, 16, 4, bitmap.length, 22),
+        bitmap,
+      ]);
+    };
+
+    it("should flag bitmaps without an AND mask", () => {
+      const result = validateIco(createMasklessIco());
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain("AND mask is missing");
+      expect(result.entries[0].hasMask).toBe(false);
+    });
+
+    it("should flag entries that point outside the file", () => {
+      const ico = createMasklessIco();
+      ico.writeUInt32LE(ico.length, 6 + 12);
+      const result = validateIco(ico);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain("outside the file");
+    });
+
+    it("should flag PNG entries whose size disagrees with the directory", async () => {
+      const ico = await generateIco([
+        createTestPng(64, 64, { r: 0, g: 0, b: 0, alpha: 1 }),
+      ]);
+      ico.writeUInt8(32, 6);
+      const result = validateIco(ico);
+      expect(result.errors[0]).toContain("PNG is 64x64, directory says 32x64");
+    });
+
+    it("should reject files that aren't ICOs", () => {
+      const result = validateIco(Buffer.from("not an icon"));
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(["Not an ICO file (bad header)."]);
+    });
+  });
+
+  describe("decodeIcoEntry", () => {
+    it("should decode bitmap entries back to the original pixels", async () => {
+      const canvas = createCanvas(16, 16);
+      const ctx = canvas.getContext("2d");
+      ctx.fillStyle = "rgba(255, 0, 0, 1)";
+      ctx.fillRect(0, 0, 8, 16);
+      ctx.fillStyle = "rgba(0, 0, 255, 1)";
+      ctx.fillRect(8, 0, 8, 8);
+      const source = canvas.toBuffer("image/png");
+
+      const ico = await generateIco([source]);
+      const [entry] = validateIco(ico).entries;
+      const decoded = PNG.sync.read(decodeIcoEntry(ico, entry));
+
+      expect(decoded.data).toEqual(PNG.sync.read(source).data);
+    });
+
+    it("should return PNG entries unchanged", async () => {
+      const source = createTestPng(64, 64, { r: 0, g: 255, b: 0, alpha: 1 });
+      const ico = await generateIco([source]);
+      const [entry] = validateIco(ico).entries;
+
+      expect(decodeIcoEntry(ico, entry)).toEqual(source);
+    });
+
+    it("should decode paletted bitmaps using the AND mask", () => {
+      // 2x2, 1 bpp: palette black/white, top row white, bottom row black,
+      // bottom-right pixel transparent
+      const header = createBitmapInfoHeader(2, 2, 0, 0);
+      header.writeUInt16LE(1, 14);
+      const palette = Buffer.from([0, 0, 0, 0, 255, 255, 255, 0]);
+      const xor = Buffer.from([0x00, 0, 0, 0, 0xc0, 0, 0, 0]); // bottom-up
+      const mask = Buffer.from([0x40, 0, 0, 0, 0x00, 0, 0, 0]);
+      const bitmap = Buffer.concat([header, palette, xor, mask]);
+      const ico = Buffer.concat([
+        createIcoHeader(1),
+        createIcoDirectory(2, 2, 0, bitmap.length, 22),
+        bitmap,
+      ]);
+
+      const result = validateIco(ico);
+      expect(result.errors).toEqual([]);
+      const decoded = PNG.sync.read(decodeIcoEntry(ico, result.entries[0]));
+
+      expect([...decoded.data]).toEqual([
+        255, 255, 255, 255, 255, 255, 255, 255,
+        0, 0, 0, 255, 0, 0, 0, 0,
+      ]);
+    });
+  });
+
   describe("generateIco", () => {
     it("should generate a valid ICO file from PNG buffers", async () => {
       // Create test PNG buffers
@@ -815,6 +1517,70 @@ describe("ICO generation", () => {
       expect(icoBuffer.length).toBeGreaterThan(6 + 16 * 3); // Header + 3 directory entries
     });
 
+    it("should include the AND mask in bitmap entries", async () => {
+      const png16 = createTestPng(16, 16, { r: 255, g: 0, b: 0, alpha: 1 });
+      const icoBuffer = await generateIco([png16]);
+
+      // Header + BGRA pixels + 16 rows of 4 mask bytes
+      const expectedSize = 40 + 16 * 16 * 4 + 16 * 4;
+      expect(icoBuffer.readUInt32LE(6 + 8)).toBe(expectedSize);
+      expect(icoBuffer.length).toBe(6 + 16 + expectedSize);
+
+      const offset = icoBuffer.readUInt32LE(6 + 12);
+      expect(icoBuffer.readUInt32LE(offset + 20)).toBe(expectedSize - 40);
+    });
+
+    it("should store large sizes as PNG and small sizes as bitmaps", async () => {
+      const png16 = createTestPng(16, 16, { r: 255, g: 0, b: 0, alpha: 1 });
+      const png64 = createTestPng(64, 64, { r: 0, g: 255, b: 0, alpha: 1 });
+
+      const icoBuffer = await generateIco([png16, png64]);
+
+      const bmpOffset = icoBuffer.readUInt32LE(6 + 12);
+      expect(icoBuffer.readUInt32LE(bmpOffset)).toBe(40); // BITMAPINFOHEADER
+
+      const pngSize = icoBuffer.readUInt32LE(6 + 16 + 8);
+      const pngOffset = icoBuffer.readUInt32LE(6 + 16 + 12);
+      expect(pngSize).toBe(png64.length);
+      expect(icoBuffer.subarray(pngOffset, pngOffset + pngSize)).toEqual(png64);
+      expect(pngOffset + pngSize).toBe(icoBuffer.length);
+    });
+
+    it("should honor pngMinSize", async () => {
+      const png16 = createTestPng(16, 16, { r: 255, g: 0, b: 0, alpha: 1 });
+      const png256 = createTestPng(256, 256, { r: 0, g: 0, b: 255, alpha: 1 });
+
+      const allPng = await generateIco([png16, png256], { pngMinSize: 0 });
+      const firstOffset = allPng.readUInt32LE(6 + 12);
+      expect(allPng.subarray(firstOffset, firstOffset + 4).toString("latin1")).toBe(
+        "\x89PNG"
+      );
+
+      const allBmp = await generateIco([png16, png256], { pngMinSize: 1000 });
+      const lastOffset = allBmp.readUInt32LE(6 + 16 + 12);
+      expect(allBmp.readUInt32LE(lastOffset)).toBe(40);
+      expect(allBmp.length).toBeGreaterThan(allPng.length);
+    });
+
+    it("should round-trip through validateIco", async () => {
+      const pngBuffers = [16, 24, 32, 48, 64, 256].map((size) =>
+        createTestPng(size, size, { r: 10, g: 20, b: 30, alpha: 0.5 })
+      );
+
+      const result = validateIco(await generateIco(pngBuffers));
+
+      expect(result.errors).toEqual([]);
+      expect(result.valid).toBe(true);
+      expect(result.entries.map((e) => [e.width, e.format, e.hasMask])).toEqual([
+        [16, "bmp", true],
+        [24, "bmp", true],
+        [32, "bmp", true],
+        [48, "bmp", true],
+        [64, "png", false],
+        [256, "png", false],
+      ]);
+    });
+
     it("should produce a file that can be read as ICO", async () => {
       const png = createTestPng(16, 16, { r: 255, g: 255, b: 255, alpha: 1 });
 
@@ -834,3 +1600,1438 @@ describe("ICO generation", () => {
     });
   });
 });
+
+describe("generate", () => {
+  it("should return only favicon.ico by default", async () => {
+    const { assets, html } = await generate("\u{1F34E}");
+
+    expect([...assets.keys()]).toEqual(["favicon.ico"]);
+    const ico = assets.get("favicon.ico")!;
+    expect(ico.mimeType).toBe("image/x-icon");
+    expect(ico.buffer.readUInt16LE(2)).toBe(1); // Type: ICO
+    expect(ico.buffer.readUInt16LE(4)).toBe(3); // Count
+    expect(html).toBe(
+      '<!-- Standard favicon -->\n<link rel="icon" type="image/x-icon" href="/favicon.ico">'
+    );
+  }, 30000);
+
+  it("should embed custom ICO sizes up to 256", async () => {
+    const { assets } = await generate("\u{1F34E}", {
+      icoSizes: [256, 16, 32, 48, 64, 128, 32],
+    });
+    const ico = assets.get("favicon.ico")!;
+    expect(ico.width).toBe(256);
+    expect(ico.buffer.readUInt16LE(4)).toBe(6);
+
+    const sizes = [];
+    for (let i = 0; i < 6; i++) {
+      const w = ico.buffer.readUInt8(6 + i * 16);
+      sizes.push(w === 0 ? 256 : w);
+    }
+    expect(sizes).toEqual([16, 32, 48, 64, 128, 256]);
+  }, 30000);
+
+  it("should reject invalid ICO sizes", async () => {
+    await expect(generate("\u{1F34E}", { icoSizes: [300] })).rejects.toThrow(
+      'Invalid ICO size "300"'
+    );
+    await expect(generate("\u{1F34E}", { icoSizes: [] })).rejects.toThrow(
+      "at least one size"
+    );
+  });
+
+  it("should return the full asset set with matching metadata", async () => {
+    const { assets, html } = await generate("\u{1F680}", { all: true });
+
+    expect(assets.size).toBe(1 + 1 + 3 + 9 + 1 + 2 + 2 + 1 + 1);
+    for (const asset of assets.values()) {
+      expect(assets.get(asset.path)).toBe(asset);
+      if (asset.mimeType === "image/png") {
+        const metadata = getPngMetadata(asset.buffer);
+        expect(metadata.width).toBe(asset.width);
+        expect(metadata.height).toBe(asset.height);
+      }
+    }
+    expect(assets.get("favicons/favicon-32x32.png")!.width).toBe(32);
+    expect(assets.get("og-image.png")!.width).toBe(1200);
+    expect(html).toContain('href="/favicons/favicon-16x16.png"');
+    expect(html).toContain(
+      'href="/apple-touch-icon/apple-touch-icon-180x180.png"'
+    );
+    expect(html).toContain('<meta property="og:image" content="/og-image.png">');
+    expect(html).toContain('<meta property="og:image:width" content="1200">');
+    expect(html).toContain('<meta property="og:image:height" content="630">');
+    expect(html).toContain('<link rel="manifest" href="/site.webmanifest">');
+  }, 30000);
+
+  it("should build the web manifest from options", async () => {
+    const { assets } = await generate("\u{1F680}", {
+      all: true,
+      manifest: { name: "Launchpad", themeColor: "#112233" },
+    });
+
+    const asset = assets.get("site.webmanifest")!;
+    expect(asset.mimeType).toBe("application/manifest+json");
+    expect(asset.width).toBeUndefined();
+
+    const manifest = JSON.parse(asset.buffer.toString("utf8"));
+    expect(manifest.name).toBe("Launchpad");
+    expect(manifest.short_name).toBe("Launchpad");
+    expect(manifest.theme_color).toBe("#112233");
+    expect(manifest.background_color).toBe("#ffffff");
+    expect(manifest.icons).toEqual([
+      { src: "/android-chrome-192x192.png", sizes: "192x192", type: "image/png" },
+      { src: "/android-chrome-512x512.png", sizes: "512x512", type: "image/png" },
+      {
+        src: "/android-chrome-maskable-192x192.png",
+        sizes: "192x192",
+        type: "image/png",
+        purpose: "maskable",
+      },
+      {
+        src: "/android-chrome-maskable-512x512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ]);
+  }, 30000);
+
+  it("should reject invalid manifest colors", async () => {
+    await expect(
+      generate("\u{1F680}", {
+        all: true,
+        manifest: { backgroundColor: "#ff00zz" },
+      })
+    ).rejects.toThrow('Invalid manifest background color "#ff00zz"');
+    await expect(
+      generate("\u{1F680}", { manifest: { themeColor: "nope" } })
+    ).rejects.toThrow('Invalid manifest theme color "nope"');
+  });
+
+  it("should reject an invalid og:image text color", async () => {
+    await expect(
+      generate("\u{1F680}", { all: true, og: { textColor: "#12" } })
+    ).rejects.toThrow('Invalid og:image text color "#12"');
+  });
+
+  it("should keep maskable icon content inside the safe zone", async () => {
+    const { assets } = await generate("\u{1F34E}", {
+      all: true,
+      manifest: { backgroundColor: "#00ff00" },
+    });
+
+    const png = PNG.sync.read(
+      assets.get("android-chrome-maskable-192x192.png")!.buffer
+    );
+    const center = (png.width - 1) / 2;
+    const safeRadius = png.width * 0.4;
+    for (let y = 0; y < png.height; y++) {
+      for (let x = 0; x < png.width; x++) {
+        const i = (y * png.width + x) * 4;
+        // Fully opaque everywhere, background-only outside the safe zone
+        expect(png.data[i + 3]).toBe(255);
+        if (Math.hypot(x - center, y - center) > safeRadius + 1) {
+          expect([png.data[i], png.data[i + 1], png.data[i + 2]]).toEqual([
+            0, 255, 0,
+          ]);
+        }
+      }
+    }
+  }, 30000);
+
+  it("should render the mask preview only when asked", async () => {
+    const withoutPreview = await generate("\u{1F34E}", { all: true });
+    expect(withoutPreview.assets.has("maskable-preview.png")).toBe(false);
+
+    const { assets } = await generate("\u{1F34E}", {
+      all: true,
+      maskPreview: true,
+    });
+    const preview = assets.get("maskable-preview.png")!;
+    const metadata = getPngMetadata(preview.buffer);
+    expect(metadata.width).toBe(preview.width);
+    expect(metadata.height).toBe(preview.height);
+
+    // Corners of the first (circle) tile are cropped away
+    const png = PNG.sync.read(preview.buffer);
+    expect(png.data[(24 * png.width + 24) * 4 + 3]).toBe(0);
+  }, 30000);
+
+  it("should default the manifest name to the emoji name", async () => {
+    const { assets } = await generate("\u{1F680}", { all: true });
+    const manifest = JSON.parse(
+      assets.get("site.webmanifest")!.buffer.toString("utf8")
+    );
+    expect(manifest.name).toBe("rocket");
+  }, 30000);
+
+  it("should not touch the filesystem or console", async () => {
+    const tempDir = path.join(__dirname, "../test-output/generate-cwd");
+    fs.mkdirSync(tempDir, { recursive: true });
+    const originalCwd = process.cwd();
+    const logSpy = vi.spyOn(console, "log");
+    process.chdir(tempDir);
+    try {
+      await generate("\u{1F34E}", { all: true });
+      expect(fs.readdirSync(tempDir)).toEqual([]);
+      expect(logSpy).not.toHaveBeenCalled();
+    } finally {
+      process.chdir(originalCwd);
+      logSpy.mockRestore();
+      fs.rmSync(tempDir, { recursive: true });
+    }
+  }, 30000);
+
+  it("should write assets with writeAssets", async () => {
+    const outDir = path.join(__dirname, "../test-output/write-assets");
+    if (fs.existsSync(outDir)) fs.rmSync(outDir, { recursive: true });
+
+    const { assets } = await generate("\u{1F34E}", { all: true });
+    const written = writeAssets(assets, outDir);
+
+    expect(written.length).toBe(assets.size);
+    expect(
+      fs.existsSync(path.join(outDir, "apple-touch-icon/apple-touch-icon-57x57.png"))
+    ).toBe(true);
+    fs.rmSync(outDir, { recursive: true });
+  }, 30000);
+});
+
+describe("parseBackground", () => {
+  it("should parse plain colors", () => {
+    expect(parseBackground("#ff0000")).toEqual({
+      type: "color",
+      color: "#ff0000",
+    });
+    expect(parseBackground(" rebeccapurple ")).toEqual({
+      type: "color",
+      color: "rebeccapurple",
+    });
+  });
+
+  it("should parse linear gradients with and without an angle", () => {
+    expect(parseBackground("linear-gradient(#f00, #00f)")).toEqual({
+      type: "linear-gradient",
+      angle: 180,
+      stops: ["#f00", "#00f"],
+    });
+    expect(
+      parseBackground("linear-gradient(45deg, rgb(255, 0, 0), #00f, #0f0)")
+    ).toEqual({
+      type: "linear-gradient",
+      angle: 45,
+      stops: ["rgb(255, 0, 0)", "#00f", "#0f0"],
+    });
+  });
+
+  it("should parse radial gradients", () => {
+    expect(parseBackground("radial-gradient(white, black)")).toEqual({
+      type: "radial-gradient",
+      stops: ["white", "black"],
+    });
+  });
+
+  it("should reject invalid colors and gradients", () => {
+    expect(() => parseBackground("")).toThrow("Invalid background color");
+    expect(() => parseBackground("notacolor")).toThrow(
+      "Invalid background color"
+    );
+    expect(() => parseBackground("linear-gradient(#f00)")).toThrow(
+      "at least two colors"
+    );
+    expect(() => parseBackground("linear-gradient(#f00, nope)")).toThrow(
+      'unknown color "nope"'
+    );
+  });
+});
+
+describe("background and shape", () => {
+  const alphaAt = (buffer: Buffer, x: number, y: number) => {
+    const png = PNG.sync.read(buffer);
+    return png.data[(y * png.width + x) * 4 + 3];
+  };
+
+  it("should fill square tiles edge to edge", async () => {
+    const { assets } = await generate("\u{1F34E}", {
+      all: true,
+      background: "#336699",
+    });
+    const favicon = assets.get("favicons/favicon-16x16.png")!.buffer;
+    expect(alphaAt(favicon, 0, 0)).toBe(255);
+    expect(alphaAt(favicon, 15, 15)).toBe(255);
+  }, 30000);
+
+  it("should antialias circle edges at 16px", async () => {
+    const { assets } = await generate("\u{1F34E}", {
+      all: true,
+      background: "#336699",
+      shape: "circle",
+    });
+    const png = PNG.sync.read(assets.get("favicons/favicon-16x16.png")!.buffer);
+
+    expect(png.data[3]).toBe(0); // Corner is outside the circle
+    expect(png.data[(8 * 16 + 8) * 4 + 3]).toBe(255); // Center is filled
+    const partial = [];
+    for (let i = 3; i < png.data.length; i += 4) {
+      if (png.data[i] > 0 && png.data[i] < 255) partial.push(png.data[i]);
+    }
+    expect(partial.length).toBeGreaterThan(0);
+  }, 30000);
+
+  it("should apply the shape to every raster size", async () => {
+    const { assets } = await generate("\u{1F34E}", {
+      all: true,
+      background: "linear-gradient(45deg, #f00, #00f)",
+      shape: "rounded",
+    });
+    for (const asset of assets.values()) {
+      if (/^favicons\/|^android-chrome-\d/.test(asset.path)) {
+        expect(alphaAt(asset.buffer, 0, 0)).toBeLessThan(128);
+        expect(alphaAt(asset.buffer, Math.floor(asset.width! / 2), 1)).toBe(
+          255
+        );
+      }
+    }
+  }, 30000);
+
+  it("should use a white tile for a shape without background", async () => {
+    const { assets } = await generate("\u{1F34E}", {
+      all: true,
+      shape: "squircle",
+    });
+    const png = PNG.sync.read(
+      assets.get("android-chrome-192x192.png")!.buffer
+    );
+    expect(png.data[3]).toBe(0);
+    const top = (2 * png.width + 96) * 4;
+    expect([...png.data.subarray(top, top + 4)]).toEqual([255, 255, 255, 255]);
+  }, 30000);
+
+  it("should reject unknown shapes", async () => {
+    await expect(
+      generate("\u{1F34E}", { shape: "blob" as never })
+    ).rejects.toThrow('Invalid shape "blob"');
+  });
+});
+
+describe("SVG favicon", () => {
+  const getSvg = async (options: Parameters<typeof generate>[1]) => {
+    const { assets, html } = await generate("\u{1F34E}", {
+      all: true,
+      ...options,
+    });
+    const asset = assets.get("favicon.svg")!;
+    expect(asset.mimeType).toBe("image/svg+xml");
+    return { svg: asset.buffer.toString("utf8"), html };
+  };
+
+  it("should embed the emoji as text by default", async () => {
+    const { svg, html } = await getSvg({});
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toContain('font-size="80"');
+    expect(svg).toContain(">\u{1F34E}</text>");
+    expect(svg).not.toContain("<style>");
+    expect(html).toContain(
+      '<link rel="icon" type="image/svg+xml" href="/favicon.svg">'
+    );
+  }, 30000);
+
+  it("should embed a PNG render in image mode", async () => {
+    const { svg } = await getSvg({ svgEmbed: "image" });
+    expect(svg).toContain('href="data:image/png;base64,');
+    expect(svg).not.toContain("<text");
+  }, 30000);
+
+  it("should honor background and shape", async () => {
+    const { svg } = await getSvg({ background: "#336699", shape: "circle" });
+    expect(svg).toContain(".bg{fill:#336699}");
+    expect(svg).toContain('<circle class="bg"');
+    expect(svg).toContain('font-size="60"');
+  }, 30000);
+
+  it("should define gradients", async () => {
+    const { svg } = await getSvg({
+      background: "linear-gradient(90deg, #f00, #00f)",
+      shape: "rounded",
+    });
+    expect(svg).toContain(
+      '<linearGradient id="bg" x1="0" y1="0.5" x2="1" y2="0.5">'
+    );
+    expect(svg).toContain(".bg{fill:url(#bg)}");
+    expect(svg).toContain('rx="20"');
+  }, 30000);
+
+  it("should add a dark mode variant", async () => {
+    const { svg } = await getSvg({
+      darkBackground: "radial-gradient(#333, #000)",
+    });
+    expect(svg).toContain(".bg{fill:none}");
+    expect(svg).toContain(
+      "@media (prefers-color-scheme:dark){.bg{fill:url(#bg-dark)}}"
+    );
+    expect(svg).toContain('<radialGradient id="bg-dark"');
+  }, 30000);
+
+  it("should not be generated without --all", async () => {
+    const { assets } = await generate("\u{1F34E}");
+    expect(assets.has("favicon.svg")).toBe(false);
+  }, 30000);
+});
+
+describe("Apple touch icons", () => {
+  const pixelAt = (png: PNG, x: number, y: number) => {
+    const i = (y * png.width + x) * 4;
+    return [...png.data.subarray(i, i + 4)];
+  };
+
+  it("should be fully opaque on white by default", async () => {
+    const { assets } = await generate("\u{1F34E}", { all: true });
+    for (const size of [57, 180]) {
+      const png = PNG.sync.read(
+        assets.get(`apple-touch-icon/apple-touch-icon-${size}x${size}.png`)!
+          .buffer
+      );
+      for (let i = 3; i < png.data.length; i += 4) {
+        expect(png.data[i]).toBe(255);
+      }
+      expect(pixelAt(png, 0, 0)).toEqual([255, 255, 255, 255]);
+    }
+  }, 30000);
+
+  it("should emit the unsuffixed 180x180 icon", async () => {
+    const { assets } = await generate("\u{1F34E}", { all: true });
+    const icon = assets.get("apple-touch-icon.png")!;
+    expect(icon.width).toBe(180);
+    expect(icon.buffer).toEqual(
+      assets.get("apple-touch-icon/apple-touch-icon-180x180.png")!.buffer
+    );
+  }, 30000);
+
+  it("should ignore the tile shape and use the icon background", async () => {
+    const { assets } = await generate("\u{1F34E}", {
+      all: true,
+      background: "#336699",
+      shape: "circle",
+    });
+    const png = PNG.sync.read(assets.get("apple-touch-icon.png")!.buffer);
+    expect(pixelAt(png, 0, 0)).toEqual([0x33, 0x66, 0x99, 255]);
+  }, 30000);
+
+  it("should honor appleBackground and applePadding", async () => {
+    const { assets } = await generate("\u{1F34E}", {
+      all: true,
+      background: "#336699",
+      appleBackground: "#00ff00",
+      applePadding: 0.4,
+    });
+    const png = PNG.sync.read(assets.get("apple-touch-icon.png")!.buffer);
+    // With 40% padding per side, only the middle 20% holds the emoji
+    expect(pixelAt(png, 30, 90)).toEqual([0, 255, 0, 255]);
+    expect(pixelAt(png, 90, 30)).toEqual([0, 255, 0, 255]);
+  }, 30000);
+
+  it("should reject out-of-range padding", async () => {
+    await expect(
+      generate("\u{1F34E}", { all: true, applePadding: 0.5 })
+    ).rejects.toThrow("Invalid Apple touch icon padding");
+  });
+});
+
+describe("og:image", () => {
+  const getOgImage = async (og: Parameters<typeof generate>[1] = {}) => {
+    const { assets } = await generate("\u{1F680}", { all: true, ...og });
+    return PNG.sync.read(assets.get("og-image.png")!.buffer);
+  };
+
+  // Count pixels in a region that differ from the given color
+  const countInk = (
+    png: PNG,
+    region: { x: number; y: number; width: number; height: number },
+    color: number[]
+  ) => {
+    let count = 0;
+    for (let y = region.y; y < region.y + region.height; y++) {
+      for (let x = region.x; x < region.x + region.width; x++) {
+        const i = (y * png.width + x) * 4;
+        if (color.some((c, j) => Math.abs(png.data[i + j] - c) > 8)) count++;
+      }
+    }
+    return count;
+  };
+
+  const TEXT_AREA = { x: 560, y: 80, width: 560, height: 470 };
+
+  it("should keep the plain white layout without text", async () => {
+    const png = await getOgImage();
+    expect(png.width).toBe(1200);
+    expect(png.height).toBe(630);
+    const leftEdge = { x: 0, y: 0, width: 200, height: 630 };
+    expect(countInk(png, leftEdge, [255, 255, 255])).toBe(0);
+  }, 30000);
+
+  it("should draw the title and subtitle next to the emoji", async () => {
+    const png = await getOgImage({
+      og: { title: "Launchpad", subtitle: "Ship it" },
+    });
+    expect(countInk(png, TEXT_AREA, [255, 255, 255])).toBeGreaterThan(500);
+  }, 30000);
+
+  it("should use the og background and contrasting text", async () => {
+    const png = await getOgImage({
+      og: { title: "Launchpad", background: "#000000" },
+    });
+    expect([...png.data.subarray(0, 4)]).toEqual([0, 0, 0, 255]);
+
+    // Text on black is drawn in white
+    let white = 0;
+    for (let i = 0; i < png.data.length; i += 4) {
+      if (png.data[i] > 240 && png.data[i + 1] > 240 && png.data[i + 2] > 240) {
+        white++;
+      }
+    }
+    expect(white).toBeGreaterThan(100);
+  }, 30000);
+
+  it("should fall back to the icon background", async () => {
+    const png = await getOgImage({ background: "#336699" });
+    expect([...png.data.subarray(0, 4)]).toEqual([0x33, 0x66, 0x99, 255]);
+  }, 30000);
+
+  it("should center text below the emoji in the emoji-above layout", async () => {
+    const png = await getOgImage({
+      og: { title: "Launchpad", layout: "emoji-above" },
+    });
+    const below = { x: 80, y: 380, width: 1040, height: 170 };
+    expect(countInk(png, below, [255, 255, 255])).toBeGreaterThan(500);
+    const leftOfText = { x: 0, y: 380, width: 200, height: 170 };
+    expect(countInk(png, leftOfText, [255, 255, 255])).toBe(0);
+  }, 30000);
+
+  it("should keep very long titles inside the card", async () => {
+    const png = await getOgImage({
+      og: {
+        title: "An extraordinarily long title ".repeat(12),
+        subtitle: "Supercalifragilisticexpialidocious".repeat(4),
+      },
+    });
+    const margin = { x: 1130, y: 0, width: 70, height: 630 };
+    expect(countInk(png, margin, [255, 255, 255])).toBe(0);
+  }, 30000);
+
+  it("should reject unknown layouts and missing fonts", async () => {
+    await expect(
+      generate("\u{1F680}", { all: true, og: { layout: "grid" as never } })
+    ).rejects.toThrow('Invalid og:image layout "grid"');
+    await expect(
+      generate("\u{1F680}", {
+        all: true,
+        og: { title: "Hi", font: "/nonexistent/font.ttf" },
+      })
+    ).rejects.toThrow("Font file not found: /nonexistent/font.ttf");
+  }, 30000);
+});
+
+describe("social cards", () => {
+  it("should render each requested card at its own size", async () => {
+    const { assets } = await generate("\u{1F680}", {
+      all: true,
+      og: { title: "Launchpad" },
+      socialCards: ["og", "twitter", "linkedin", "square"],
+    });
+    const expected: Record<string, [number, number]> = {
+      "og-image.png": [1200, 630],
+      "twitter-image.png": [1200, 600],
+      "linkedin-image.png": [1200, 627],
+      "og-image-square.png": [1200, 1200],
+    };
+    for (const [file, [width, height]] of Object.entries(expected)) {
+      const png = PNG.sync.read(assets.get(file)!.buffer);
+      expect([png.width, png.height]).toEqual([width, height]);
+      expect(assets.get(file)!.width).toBe(width);
+      expect(assets.get(file)!.height).toBe(height);
+    }
+  }, 60000);
+
+  it("should print og:image and twitter meta tags for each card", async () => {
+    const { assets, html } = await generate("\u{1F680}", {
+      all: true,
+      socialCards: ["square", "twitter"],
+    });
+    expect(assets.has("og-image.png")).toBe(false);
+    expect(html).toContain(
+      '<meta property="og:image" content="/og-image-square.png">'
+    );
+    expect(html).toContain('<meta property="og:image:height" content="1200">');
+    expect(html).toContain(
+      '<meta name="twitter:card" content="summary_large_image">'
+    );
+    expect(html).toContain(
+      '<meta name="twitter:image" content="/twitter-image.png">'
+    );
+  }, 30000);
+
+  it("should reject unknown card names", async () => {
+    await expect(
+      generate("\u{1F680}", { all: true, socialCards: ["myspace" as never] })
+    ).rejects.toThrow('Invalid social card "myspace"');
+  });
+});
+
+describe("loadConfig", () => {
+  const CONFIG_DIR = path.join(TEST_OUTPUT_DIR, "load-config");
+
+  beforeEach(() => {
+    fs.rmSync(CONFIG_DIR, { recursive: true, force: true });
+    fs.mkdirSync(CONFIG_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(CONFIG_DIR, { recursive: true, force: true });
+  });
+
+  const write = (file: string, contents: unknown) =>
+    fs.writeFileSync(
+      path.join(CONFIG_DIR, file),
+      typeof contents === "string" ? contents : JSON.stringify(contents)
+    );
+
+  it("should return undefined without a config", () => {
+    expect(loadConfig(undefined, CONFIG_DIR)).toBeUndefined();
+    write("package.json", { name: "site" });
+    expect(loadConfig(undefined, CONFIG_DIR)).toBeUndefined();
+  });
+
+  it("should only complain about a broken package.json when asked to read it", () => {
+    write("package.json", "{ not json");
+    expect(loadConfig(undefined, CONFIG_DIR)).toBeUndefined();
+    expect(() => loadConfig("package.json", CONFIG_DIR)).toThrow(
+      "Could not parse package.json"
+    );
+  });
+
+  it("should prefer emojico.config.json over package.json", () => {
+    write("package.json", { emojico: { emoji: "🍋" } });
+    write("emojico.config.json", { emoji: "🍎" });
+    const loaded = loadConfig(undefined, CONFIG_DIR)!;
+    expect(loaded.config.emoji).toBe("🍎");
+    expect(loaded.source).toBe("emojico.config.json");
+  });
+
+  it("should resolve paths relative to the config file", () => {
+    fs.mkdirSync(path.join(CONFIG_DIR, "config"));
+    write("config/icons.json", {
+      out: "../public",
+      og: { font: "fonts/Inter.ttf" },
+      font: "fonts/Twemoji.ttf",
+    });
+    const { config } = loadConfig("config/icons.json", CONFIG_DIR)!;
+    expect(config.out).toBe("public");
+    expect(config.og!.font).toBe(
+      path.join(CONFIG_DIR, "config/fonts/Inter.ttf")
+    );
+    expect(config.font).toEqual([
+      path.join(CONFIG_DIR, "config/fonts/Twemoji.ttf"),
+    ]);
+  });
+
+  it("should name the offending option in errors", () => {
+    write("emojico.config.json", { og: { layout: "grid" } });
+    expect(() => loadConfig(undefined, CONFIG_DIR)).toThrow(
+      'emojico.config.json: "og.layout" must be one of'
+    );
+    write("emojico.config.json", { icoSize: [16] });
+    expect(() => loadConfig(undefined, CONFIG_DIR)).toThrow(
+      'unknown option "icoSize"'
+    );
+    write("emojico.config.json", { manifest: { backgroundColor: "#ff00zz" } });
+    expect(() => loadConfig(undefined, CONFIG_DIR)).toThrow(
+      '"manifest.backgroundColor" must be a CSS color'
+    );
+    write("emojico.config.json", { applePadding: 1 });
+    expect(() => loadConfig(undefined, CONFIG_DIR)).toThrow(
+      '"applePadding" must be a number from 0 to 0.4 (got 1)'
+    );
+    write("emojico.config.json", "{ not json");
+    expect(() => loadConfig(undefined, CONFIG_DIR)).toThrow(
+      "Could not parse emojico.config.json"
+    );
+    expect(() => loadConfig("missing.json", CONFIG_DIR)).toThrow(
+      "Config file not found: missing.json"
+    );
+  });
+
+  it("should check each variant like the overlay", () => {
+    write("emojico.config.json", { variants: { dev: { bagde: "DEV" } } });
+    expect(() => loadConfig(undefined, CONFIG_DIR)).toThrow(
+      'unknown option "variants.dev.bagde"'
+    );
+    write("emojico.config.json", { variants: { qa: { grayscale: "yes" } } });
+    expect(() => loadConfig(undefined, CONFIG_DIR)).toThrow(
+      '"variants.qa.grayscale" must be true or false (got "yes")'
+    );
+    write("emojico.config.json", { variants: { dev: "DEV" } });
+    expect(() => loadConfig(undefined, CONFIG_DIR)).toThrow(
+      '"variants.dev" must be an object'
+    );
+    write("emojico.config.json", { variants: { dev: { badge: "DEV" } } });
+    expect(loadConfig(undefined, CONFIG_DIR)?.config.variants).toEqual({
+      dev: { badge: "DEV" },
+    });
+  });
+});
+
+describe("injectHeadSnippet", () => {
+  const SNIPPET =
+    '<!-- Standard favicon -->\n<link rel="icon" href="/favicon.ico">';
+  const PAGE = [
+    "<!doctype html>",
+    "<html>",
+    "  <head>",
+    '    <meta charset="utf-8">',
+    "  </head>",
+    "  <body><p>Hello</p></body>",
+    "</html>",
+    "",
+  ].join("\n");
+
+  it("should insert an indented block before </head>", () => {
+    const result = injectHeadSnippet(PAGE, SNIPPET);
+    expect(result.status).toBe("inserted");
+    expect(result.added).toEqual(['<link rel="icon" href="/favicon.ico">']);
+    expect(result.html).toBe(
+      PAGE.replace(
+        "  </head>",
+        [
+          "    <!-- emojico:start -->",
+          "    <!-- Standard favicon -->",
+          '    <link rel="icon" href="/favicon.ico">',
+          "    <!-- emojico:end -->",
+          "  </head>",
+        ].join("\n")
+      )
+    );
+  });
+
+  it("should replace an existing block and report the difference", () => {
+    const first = injectHeadSnippet(PAGE, SNIPPET).html;
+    const next = injectHeadSnippet(
+      first,
+      '<!-- SVG favicon -->\n<link rel="icon" href="/favicon.svg">'
+    );
+    expect(next.status).toBe("updated");
+    expect(next.added).toEqual(['<link rel="icon" href="/favicon.svg">']);
+    expect(next.removed).toEqual(['<link rel="icon" href="/favicon.ico">']);
+    expect(next.html).not.toContain("favicon.ico");
+    expect(next.html.startsWith(PAGE.split("  </head>")[0])).toBe(true);
+    expect(next.html.endsWith(PAGE.split("  </head>")[1])).toBe(true);
+
+    const again = injectHeadSnippet(first, SNIPPET);
+    expect(again.status).toBe("unchanged");
+    expect(again.html).toBe(first);
+  });
+
+  it("should keep CRLF line endings", () => {
+    const result = injectHeadSnippet(PAGE.replace(/\n/g, "\r\n"), SNIPPET);
+    expect(result.html).not.toMatch(/[^\r]\n/);
+  });
+
+  it("should fail without a </head> or with an unterminated block", () => {
+    expect(() => injectHeadSnippet("<p>Hi</p>", SNIPPET)).toThrow(
+      "Could not find </head>"
+    );
+    expect(() =>
+      injectHeadSnippet("<head><!-- emojico:start --></head>", SNIPPET)
+    ).toThrow("without <!-- emojico:end -->");
+  });
+});
+
+describe("framework presets", () => {
+  it("should put Next.js assets in app/ and public/ with a metadata export", async () => {
+    const result = await generate("\u{1F680}", {
+      all: true,
+      socialCards: ["og", "twitter"],
+    });
+    const { assets, html } = applyPreset(result, "next");
+    expect(assets.get("app/favicon.ico")!.path).toBe("app/favicon.ico");
+    expect(assets.has("public/favicons/favicon-32x32.png")).toBe(true);
+    expect(assets.has("public/site.webmanifest")).toBe(true);
+    expect(html).toContain('import type { Metadata } from "next";');
+    expect(html).toContain(
+      '{ url: "/favicons/favicon-32x32.png", type: "image/png", sizes: "32x32" }'
+    );
+    expect(html).toContain('manifest: "/site.webmanifest"');
+    expect(html).toContain(
+      'openGraph: { images: [{ url: "/og-image.png", width: 1200, height: 630 }] }'
+    );
+    expect(html).toContain('images: ["/twitter-image.png"]');
+    expect(html).not.toContain("<link");
+  }, 30000);
+
+  it("should serve from static/ with asset placeholders for SvelteKit", async () => {
+    const { assets, html } = applyPreset(
+      await generate("\u{1F680}"),
+      "sveltekit"
+    );
+    expect([...assets.keys()]).toEqual(["static/favicon.ico"]);
+    expect(html).toContain('href="%sveltekit.assets%/favicon.ico"');
+  });
+
+  it("should keep the <head> tags for Vite and Astro", async () => {
+    const result = await generate("\u{1F680}");
+    for (const name of ["vite", "astro"] as const) {
+      const { assets, html } = applyPreset(result, name);
+      expect([...assets.keys()]).toEqual(["public/favicon.ico"]);
+      expect(html).toBe(result.html);
+    }
+  });
+
+  it("should detect the framework from package.json", () => {
+    const dir = path.join(TEST_OUTPUT_DIR, "detect-framework");
+    fs.mkdirSync(dir, { recursive: true });
+    const writePkg = (pkg: unknown) =>
+      fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify(pkg));
+    try {
+      writePkg({ devDependencies: { "@sveltejs/kit": "^2.0.0", vite: "^5" } });
+      expect(detectFramework(dir)).toBe("sveltekit");
+      writePkg({ dependencies: { next: "14.0.0", react: "18.0.0" } });
+      expect(detectFramework(dir)).toBe("next");
+      writePkg({ devDependencies: { vite: "^5" } });
+      expect(detectFramework(dir)).toBe("vite");
+      writePkg({ dependencies: { express: "^4" } });
+      expect(detectFramework(dir)).toBeUndefined();
+      expect(detectFramework(path.join(dir, "missing"))).toBeUndefined();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("bundler plugins", () => {
+  const FIXTURE_DIR = path.join(__dirname, "fixtures/app");
+  const PLUGIN_DIR = path.join(TEST_OUTPUT_DIR, "plugins");
+
+  beforeEach(() => {
+    fs.rmSync(PLUGIN_DIR, { recursive: true, force: true });
+    fs.mkdirSync(PLUGIN_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(PLUGIN_DIR, { recursive: true, force: true });
+  });
+
+  it("should emit assets and inject tags in a Vite build", async () => {
+    const { build } = await import("vite");
+    const outDir = path.join(PLUGIN_DIR, "vite");
+    await build({
+      root: FIXTURE_DIR,
+      logLevel: "silent",
+      configFile: false,
+      build: { outDir, emptyOutDir: true },
+      plugins: [vitePlugin({ emoji: "\u{1F680}", all: true })],
+    });
+
+    const ico = fs.readFileSync(path.join(outDir, "favicon.ico"));
+    expect(validateIco(ico).valid).toBe(true);
+    const png = path.join(outDir, "favicons/favicon-32x32.png");
+    expect(fs.existsSync(png)).toBe(true);
+    const html = fs.readFileSync(path.join(outDir, "index.html"), "utf8");
+    expect(html).toContain("<!-- emojico:start -->");
+    expect(html).toContain('href="/favicon.ico"');
+    expect(html).toContain("<title>Fixture</title>");
+  }, 60000);
+
+  const buildWithWebpack = async (
+    outDir: string,
+    publicPath: string,
+    pages: Array<{ filename: string; templateContent?: string }> = []
+  ) => {
+    const { default: webpack } = await import("webpack");
+    const { default: HtmlWebpackPlugin } = await import("html-webpack-plugin");
+    const stats = await new Promise<import("webpack").Stats>(
+      (resolve, reject) =>
+        webpack(
+          {
+            mode: "production",
+            context: FIXTURE_DIR,
+            entry: "./main.js",
+            output: { path: outDir, publicPath },
+            plugins: [
+              new HtmlWebpackPlugin({ template: "index.html" }),
+              ...pages.map(
+                (page) => new HtmlWebpackPlugin({ ...page, inject: false })
+              ),
+              webpackPlugin({ emoji: "\u{1F680}", all: true }),
+            ],
+          },
+          (error, result) => (error ? reject(error) : resolve(result!))
+        )
+    );
+    expect(stats.toJson().errors).toEqual([]);
+  };
+
+  it("should emit assets and inject tags in a webpack build", async () => {
+    const outDir = path.join(PLUGIN_DIR, "webpack");
+    await buildWithWebpack(outDir, "/");
+
+    const ico = fs.readFileSync(path.join(outDir, "favicon.ico"));
+    expect(validateIco(ico).valid).toBe(true);
+    const png = path.join(outDir, "favicons/favicon-32x32.png");
+    expect(fs.existsSync(png)).toBe(true);
+    const html = fs.readFileSync(path.join(outDir, "index.html"), "utf8");
+    expect(html).toContain("<!-- emojico:start -->");
+    expect(html).toContain('href="/favicon.ico"');
+    expect(html).toContain("<title>Fixture</title>");
+  }, 60000);
+
+  it("should follow publicPath and skip pages without a <head>", async () => {
+    const outDir = path.join(PLUGIN_DIR, "webpack-public-path");
+    await buildWithWebpack(outDir, "/app/", [
+      { filename: "fragment.html", templateContent: "<p>Fragment</p>" },
+    ]);
+
+    const html = fs.readFileSync(path.join(outDir, "index.html"), "utf8");
+    expect(html).toContain('href="/app/favicon.ico"');
+    expect(html).not.toContain('href="/favicon.ico"');
+    const fragment = path.join(outDir, "fragment.html");
+    expect(fs.readFileSync(fragment, "utf8")).not.toContain("emojico");
+  }, 60000);
+
+  it("should only serve favicon paths from the Vite dev server", async () => {
+    const serve = (plugin: ReturnType<typeof vitePlugin>) => {
+      plugin.configResolved({ root: FIXTURE_DIR, base: "/" });
+      let handler: Parameters<
+        Parameters<typeof plugin.configureServer>[0]["middlewares"]["use"]
+      >[0];
+      plugin.configureServer({ middlewares: { use: (h) => (handler = h) } });
+      return (url: string) =>
+        new Promise<{ body?: Buffer; next?: unknown[] }>((resolve) =>
+          handler(
+            { url },
+            { setHeader: () => {}, end: (body) => resolve({ body }) },
+            (...args: unknown[]) => resolve({ next: args })
+          )
+        );
+    };
+
+    const options: GenerateOptions = {
+      all: true,
+      maskPreview: true,
+      socialCards: ["og", "twitter", "linkedin", "square"],
+      variants: resolveVariants(["dev"]),
+    };
+    const { assets } = await generate("\u{1F680}", options);
+    const request = serve(vitePlugin({ emoji: "\u{1F680}", ...options }));
+    for (const name of assets.keys()) {
+      expect((await request(`/${name}?v=1`)).body).toBeDefined();
+    }
+    expect(await request("/src/main.js")).toEqual({ next: [] });
+
+    // A broken setup is logged, and never fails requests for the app itself
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const broken = serve(
+        vitePlugin({ emoji: "\u{1F680}", font: "/nonexistent/font.ttf" })
+      );
+      expect(await broken("/src/main.js")).toEqual({ next: [] });
+      expect(error).not.toHaveBeenCalled();
+      expect(await broken("/favicon.ico")).toEqual({ next: [] });
+      expect(error).toHaveBeenCalledWith(
+        expect.stringContaining("emojico: ")
+      );
+    } finally {
+      error.mockRestore();
+    }
+  }, 60000);
+
+  it("should write assets and the HTML entry in an esbuild build", async () => {
+    const esbuild = await import("esbuild");
+    const outdir = path.join(PLUGIN_DIR, "esbuild");
+    await esbuild.build({
+      entryPoints: ["main.js"],
+      absWorkingDir: FIXTURE_DIR,
+      bundle: true,
+      outdir,
+      logLevel: "silent",
+      plugins: [esbuildPlugin({ emoji: "\u{1F680}", html: "index.html" })],
+    });
+
+    expect(fs.existsSync(path.join(outdir, "main.js"))).toBe(true);
+    expect(fs.existsSync(path.join(outdir, "favicon.ico"))).toBe(true);
+    const html = fs.readFileSync(path.join(outdir, "index.html"), "utf8");
+    expect(html).toContain(
+      '<link rel="icon" type="image/x-icon" href="/favicon.ico">'
+    );
+  }, 30000);
+
+  it("should pick up the project config and regenerate when it changes", async () => {
+    const esbuild = await import("esbuild");
+    const project = path.join(PLUGIN_DIR, "project");
+    fs.cpSync(FIXTURE_DIR, project, { recursive: true });
+    const configPath = path.join(project, "emojico.config.json");
+    fs.writeFileSync(configPath, JSON.stringify({ emoji: "\u{1F680}" }));
+
+    const context = await esbuild.context({
+      entryPoints: ["main.js"],
+      absWorkingDir: project,
+      outdir: "dist",
+      logLevel: "silent",
+      plugins: [esbuildPlugin()],
+    });
+    try {
+      const icoPath = path.join(project, "dist/favicon.ico");
+      await context.rebuild();
+      const first = fs.readFileSync(icoPath);
+      await context.rebuild();
+      expect(fs.readFileSync(icoPath).equals(first)).toBe(true);
+
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({ emoji: "\u{1F680}", background: "#000000" })
+      );
+      await context.rebuild();
+      expect(fs.readFileSync(icoPath).equals(first)).toBe(false);
+    } finally {
+      await context.dispose();
+    }
+  }, 30000);
+
+  it("should fail the build without an emoji", async () => {
+    const esbuild = await import("esbuild");
+    await expect(
+      esbuild.build({
+        entryPoints: ["main.js"],
+        absWorkingDir: FIXTURE_DIR,
+        outdir: path.join(PLUGIN_DIR, "no-emoji"),
+        logLevel: "silent",
+        plugins: [esbuildPlugin()],
+      })
+    ).rejects.toThrow("pass an emoji to the plugin");
+  });
+});
+
+describe("environment overlays", () => {
+  const pixel = (png: PNG, x: number, y: number) => {
+    const i = (y * png.width + x) * 4;
+    return [...png.data.subarray(i, i + 4)];
+  };
+  const readAsset = (assets: Map<string, GeneratedAsset>, file: string) =>
+    PNG.sync.read(assets.get(file)!.buffer);
+
+  it("should draw a badge along the bottom of the tab icons", async () => {
+    const { assets } = await generate("\u{1F680}", {
+      all: true,
+      overlay: { badge: "DEV", badgeColor: "#0000ff" },
+    });
+    const png = readAsset(assets, "favicons/favicon-48x48.png");
+    // Left edge of the badge, clear of the text and the rounded corners
+    expect(pixel(png, 2, 40)).toEqual([0, 0, 255, 255]);
+    expect(pixel(png, 2, 10)[3]).toBe(0);
+
+    // Home screen icons are left alone
+    const android = readAsset(assets, "android-chrome-192x192.png");
+    expect(pixel(android, 4, 180)[3]).toBe(0);
+  }, 30000);
+
+  it("should draw a corner dot", async () => {
+    const { assets } = await generate("\u{1F680}", {
+      all: true,
+      overlay: { dot: "#00ff00" },
+    });
+    const png = readAsset(assets, "favicons/favicon-48x48.png");
+    const center = Math.round(48 - 48 * 0.22);
+    expect(pixel(png, center, center)).toEqual([0, 255, 0, 255]);
+  }, 30000);
+
+  it("should tint the icon", async () => {
+    const { assets } = await generate("\u{1F680}", {
+      all: true,
+      background: "#ff0000",
+      overlay: { grayscale: true },
+    });
+    const gray = pixel(readAsset(assets, "favicons/favicon-32x32.png"), 1, 1);
+    expect(gray[0]).toBe(gray[1]);
+    expect(gray[1]).toBe(gray[2]);
+
+    const { assets: shifted } = await generate("\u{1F680}", {
+      all: true,
+      background: "#ff0000",
+      overlay: { hue: 120 },
+    });
+    const shiftedPng = readAsset(shifted, "favicons/favicon-32x32.png");
+    const [r, g, b] = pixel(shiftedPng, 1, 1);
+    expect(g).toBeGreaterThan(r);
+    expect(g).toBeGreaterThan(b);
+  }, 30000);
+
+  it("should carry the overlay into favicon.svg", async () => {
+    const { assets } = await generate("\u{1F680}", {
+      all: true,
+      overlay: { badge: "STG", grayscale: true, dot: "#22c55e" },
+    });
+    const svg = assets.get("favicon.svg")!.buffer.toString();
+    expect(svg).toContain('<g filter="url(#tint)">');
+    expect(svg).toContain('<feColorMatrix type="matrix"');
+    expect(svg).toMatch(/<text [^>]*font-weight="bold"[^>]*>STG<\/text>/);
+    expect(svg).toContain('fill="#22c55e"');
+  }, 30000);
+
+  it("should render each variant with its own overlay", async () => {
+    const { assets } = await generate("\u{1F680}", {
+      variants: { dev: { badge: "DEV" }, qa: { dot: "#ff00ff" } },
+    });
+    expect([...assets.keys()]).toEqual([
+      "favicon.ico",
+      "favicon-dev.ico",
+      "favicon-qa.ico",
+    ]);
+    const plain = assets.get("favicon.ico")!.buffer;
+    for (const file of ["favicon-dev.ico", "favicon-qa.ico"]) {
+      const ico = assets.get(file)!.buffer;
+      expect(validateIco(ico).valid).toBe(true);
+      expect(ico.equals(plain)).toBe(false);
+    }
+  }, 30000);
+
+  it("should resolve variant names to default badges", () => {
+    expect(resolveVariants(["dev", "staging", "qa-eu"])).toEqual({
+      dev: { badge: "DEV", badgeColor: "#16a34a" },
+      staging: { badge: "STG", badgeColor: "#d97706" },
+      "qa-eu": { badge: "QA-E" },
+    });
+  });
+
+  it("should reject invalid overlays and variant names", async () => {
+    await expect(
+      generate("\u{1F680}", { overlay: { badge: "STAGING" } })
+    ).rejects.toThrow('Invalid overlay badge "STAGING"');
+    await expect(
+      generate("\u{1F680}", { overlay: { dot: "not-a-color" } })
+    ).rejects.toThrow('Invalid overlay color "not-a-color"');
+    await expect(
+      generate("\u{1F680}", { variants: { "../prod": { badge: "P" } } })
+    ).rejects.toThrow('Invalid variant name "../prod"');
+  });
+});
+
+describe("composition", () => {
+  // Bounding box of the opaque pixels in a PNG
+  const inkBounds = (png: PNG) => {
+    let top = png.height, bottom = -1, left = png.width, right = -1;
+    for (let y = 0; y < png.height; y++) {
+      for (let x = 0; x < png.width; x++) {
+        if (png.data[(y * png.width + x) * 4 + 3] > 0) {
+          top = Math.min(top, y);
+          bottom = Math.max(bottom, y);
+          left = Math.min(left, x);
+          right = Math.max(right, x);
+        }
+      }
+    }
+    return { top, bottom, left, right };
+  };
+  const render = async (emoji: string, options: GenerateOptions = {}) => {
+    const { assets } = await generate(emoji, { all: true, ...options });
+    return PNG.sync.read(assets.get("android-chrome-512x512.png")!.buffer);
+  };
+  const hasInk = (
+    png: PNG,
+    region: { x: number; y: number; width: number; height: number }
+  ) => {
+    for (let y = region.y; y < region.y + region.height; y++) {
+      for (let x = region.x; x < region.x + region.width; x++) {
+        if (png.data[(y * png.width + x) * 4 + 3] > 0) return true;
+      }
+    }
+    return false;
+  };
+
+  it("should center the composed result as a whole", async () => {
+    for (const emoji of ["\u{1F34E}+\u{1F680}", "\u{1F34E}/\u{1F680}"]) {
+      const { top, bottom, left, right } = inkBounds(await render(emoji));
+      expect(Math.abs(left - (511 - right))).toBeLessThanOrEqual(2);
+      expect(Math.abs(top - (511 - bottom))).toBeLessThanOrEqual(2);
+    }
+  }, 60000);
+
+  it("should place the second emoji in the requested corner", async () => {
+    const single = await render("\u{1F34E}");
+    const badged = await render("\u{1F34E}+\u{1F680}", {
+      compose: { position: "top-left", scale: 0.3 },
+    });
+    expect(PNG.sync.write(badged).equals(PNG.sync.write(single))).toBe(false);
+
+    // Diagonal pairs leave the two other corners empty
+    const diagonal = await render("\u{1F34E}/\u{1F680}");
+    const quadrant = { width: 256, height: 256 };
+    expect(hasInk(diagonal, { x: 0, y: 0, ...quadrant })).toBe(true);
+    expect(hasInk(diagonal, { x: 256, y: 256, ...quadrant })).toBe(true);
+    const corner = { width: 150, height: 150 };
+    expect(hasInk(diagonal, { x: 362, y: 0, ...corner })).toBe(false);
+    expect(hasInk(diagonal, { x: 0, y: 362, ...corner })).toBe(false);
+  }, 60000);
+
+  it("should embed compositions in favicon.svg as an image", async () => {
+    const { assets } = await generate("\u{1F34E}+\u{1F680}", { all: true });
+    const svg = assets.get("favicon.svg")!.buffer.toString();
+    expect(svg).toContain('href="data:image/png;base64,');
+    expect(svg).not.toContain("<text");
+
+    await expect(
+      generate("\u{1F34E}+\u{1F680}", { all: true, svgEmbed: "text" })
+    ).rejects.toThrow("can't be embedded as SVG text");
+  }, 30000);
+
+  it("should name the manifest after the main emoji", async () => {
+    const { assets } = await generate("\u{1F34E}+\u{1F680}", { all: true });
+    const manifest = JSON.parse(
+      assets.get("site.webmanifest")!.buffer.toString()
+    );
+    expect(manifest.name).toBe("red apple");
+  }, 30000);
+
+  it("should reject incomplete compositions and bad options", async () => {
+    await expect(generate("\u{1F34E}+")).rejects.toThrow(
+      'Put an emoji on both sides of "+"'
+    );
+    await expect(
+      generate("\u{1F34E}/\u{1F680}", { compose: { scale: 1.5 } })
+    ).rejects.toThrow('Invalid composition scale "1.5"');
+  });
+});
+
+describe("resolveEmoji", () => {
+  it("should resolve shortcodes, names and slugs", () => {
+    expect(resolveEmoji(":rocket:")).toBe("\u{1F680}");
+    expect(resolveEmoji("rocket")).toBe("\u{1F680}");
+    expect(resolveEmoji("Red Apple")).toBe("\u{1F34E}");
+    expect(resolveEmoji("red_apple")).toBe("\u{1F34E}");
+    expect(resolveEmoji(":flag-united-states:")).toBe("\u{1F1FA}\u{1F1F8}");
+  });
+
+  it("should resolve GitHub shortcodes", () => {
+    expect(resolveEmoji(":tada:")).toBe("\u{1F389}");
+    expect(resolveEmoji(":thumbsup:")).toBe("\u{1F44D}");
+    expect(resolveEmoji(":+1:")).toBe("\u{1F44D}");
+    expect(resolveEmoji(":-1:")).toBe("\u{1F44E}");
+    expect(resolveEmoji(":heart:")).toBe("\u2764\uFE0F");
+    expect(resolveEmoji(":smile:")).toBe("\u{1F604}");
+    expect(resolveEmoji("tada")).toBe("\u{1F389}");
+  });
+
+  it("should resolve codepoints", () => {
+    expect(resolveEmoji("U+1F680")).toBe("\u{1F680}");
+    expect(resolveEmoji("1f468-200d-1f4bb")).toBe(
+      "\u{1F468}\u200D\u{1F4BB}"
+    );
+    expect(resolveEmoji("U+1F468 U+200D U+1F4BB")).toBe(
+      "\u{1F468}\u200D\u{1F4BB}"
+    );
+    expect(() => resolveEmoji("U+110000")).toThrow("Invalid codepoint");
+  });
+
+  it("should pass emoji and single characters through", () => {
+    expect(resolveEmoji("\u{1F680}")).toBe("\u{1F680}");
+    expect(resolveEmoji("A")).toBe("A");
+  });
+
+  it("should list candidates instead of guessing", () => {
+    expect(() => resolveEmoji("face")).toThrow(
+      /doesn't name a single emoji[\s\S]*face with tears of joy/
+    );
+    expect(() => resolveEmoji("zzzqqq")).toThrow('No emoji found for "zzzqqq"');
+  });
+
+  it("should keep the list of candidates short", () => {
+    let message = "";
+    try {
+      resolveEmoji("flag");
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    const lines = message.split("\n");
+    expect(lines).toHaveLength(12);
+    expect(lines[11]).toMatch(/^ {2}…and \d+ more$/);
+  });
+
+  it("should resolve each side of a composition", async () => {
+    const { assets } = await generate("red_apple+U+1F680", { all: true });
+    const manifest = JSON.parse(
+      assets.get("site.webmanifest")!.buffer.toString()
+    );
+    expect(manifest.name).toBe("red apple");
+  }, 30000);
+
+  it("should only keep the + of a codepoint together", async () => {
+    const nameOf = async (input: string) => {
+      const { assets } = await generate(input, { all: true });
+      return JSON.parse(assets.get("site.webmanifest")!.buffer.toString())
+        .name;
+    };
+    // Names ending in "u" used to swallow the +
+    expect(await nameOf("peru+rocket")).toBe("flag Peru");
+    expect(await nameOf("U+1F680+U+1F34E")).toBe("rocket");
+    // Even when what follows looks like hex
+    await expect(generate("peru+beef")).rejects.toThrow(
+      /^"beef" doesn't name a single emoji/
+    );
+  }, 30000);
+
+  it("should not split a shortcode on its own + or /", async () => {
+    const nameOf = async (input: string) => {
+      const { assets } = await generate(input, { all: true });
+      return JSON.parse(assets.get("site.webmanifest")!.buffer.toString())
+        .name;
+    };
+    expect(await nameOf(":+1:+rocket")).toBe("thumbs up");
+    expect(await nameOf(":+1:/:tada:")).toBe("thumbs up");
+    expect(await nameOf("rocket+:-1:")).toBe("rocket");
+    expect(await nameOf(":+1:")).toBe("thumbs up");
+  }, 30000);
+});
+
+describe("input validation", () => {
+  it("should reject text and other non-emoji", async () => {
+    await expect(generate("h\u00e9llo")).rejects.toThrow("is not an emoji");
+    await expect(generate("\uE000")).rejects.toThrow("is not an emoji");
+    await expect(generate("  ")).rejects.toThrow("No emoji given");
+  });
+
+  it("should accept a single letter or symbol without warnings", async () => {
+    for (const input of ["A", "7"]) {
+      const { warnings } = await generate(input);
+      expect(warnings).toEqual([]);
+    }
+  }, 30000);
+
+  it("should warn about several emoji drawn side by side", async () => {
+    const { warnings } = await generate("\u{1F34E}\u{1F680}");
+    expect(warnings).toContainEqual(
+      expect.stringContaining("is 2 emoji, which will be drawn side by side")
+    );
+  }, 30000);
+
+  it("should accept emoji written without VS16 or with a skin tone", async () => {
+    await expect(generate("\u263A")).resolves.toBeDefined();
+    await expect(generate("\u{1F44D}\u{1F3FD}")).resolves.toBeDefined();
+  }, 30000);
+
+  it.skipIf(hasEmojiFont)(
+    "should refuse missing-glyph boxes unless allowed",
+    async () => {
+      const { warnings } = await generate("\u{1F34E}");
+      expect(warnings).toContainEqual(
+        expect.stringContaining('No installed font has a glyph for "\u{1F34E}"')
+      );
+
+      delete process.env.EMOJICO_ALLOW_MISSING_GLYPHS;
+      try {
+        await expect(generate("\u{1F34E}")).rejects.toThrow(
+          "Install a color emoji font"
+        );
+      } finally {
+        process.env.EMOJICO_ALLOW_MISSING_GLYPHS = "1";
+      }
+    },
+    30000
+  );
+
+  it.runIf(hasEmojiFont)("should render emoji without warnings", async () => {
+    const { warnings } = await generate("\u{1F34E}");
+    expect(warnings).toEqual([]);
+  }, 30000);
+});
+
+describe("emoji fonts", () => {
+  const faviconOf = async (options: GenerateOptions) =>
+    (await generate("A", options)).assets.get("favicon.ico")!.buffer;
+
+  it.runIf(MONO_FONT)("should render identically on every run", async () => {
+    const first = await faviconOf({ font: MONO_FONT });
+    const second = await faviconOf({ font: [MONO_FONT!] });
+    expect(first.equals(second)).toBe(true);
+    expect(first.equals(await faviconOf({}))).toBe(false);
+  }, 30000);
+
+  it.runIf(MONO_FONT)("should embed the render in favicon.svg", async () => {
+    const { assets } = await generate("A", { all: true, font: MONO_FONT });
+    const svg = assets.get("favicon.svg")!.buffer.toString();
+    expect(svg).toContain('href="data:image/png;base64,');
+    expect(svg).not.toContain("<text");
+  }, 30000);
+
+  it.runIf(MONO_FONT && SANS_FONT)(
+    "should keep font files with the same name apart",
+    async () => {
+      const copy = (font: string, dir: string) => {
+        const file = path.join(TEST_OUTPUT_DIR, "fonts", dir, "Glyphs.ttf");
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.copyFileSync(font, file);
+        return file;
+      };
+      const mono = copy(MONO_FONT!, "mono");
+      const sans = copy(SANS_FONT!, "sans");
+      const first = await faviconOf({ font: mono });
+      expect((await faviconOf({ font: sans })).equals(first)).toBe(false);
+      expect((await faviconOf({ font: mono })).equals(first)).toBe(true);
+    },
+    30000
+  );
+
+  it("should reject missing font files and unknown styles", async () => {
+    await expect(faviconOf({ font: "/nonexistent/Twemoji.ttf" })).rejects.toThrow(
+      "Font file not found: /nonexistent/Twemoji.ttf"
+    );
+    await expect(faviconOf({ emojiStyle: "No Such Font" })).rejects.toThrow(
+      'Unknown emoji style "No Such Font"'
+    );
+  });
+});
+
+describe("skin tones", () => {
+  it("should add the modifier after the person", () => {
+    expect(applySkinTone("\u{1F44D}", "dark")).toBe("\u{1F44D}\u{1F3FF}");
+    // The emoji presentation selector goes, the gender sign's stays
+    expect(applySkinTone("\u26F9\uFE0F\u200D\u2642\uFE0F", "light")).toBe(
+      "\u26F9\u{1F3FB}\u200D\u2642\uFE0F"
+    );
+  });
+
+  it("should tone every person but not the handshake between them", () => {
+    expect(
+      applySkinTone("\u{1F9D1}\u200D\u{1F91D}\u200D\u{1F9D1}", "medium")
+    ).toBe("\u{1F9D1}\u{1F3FD}\u200D\u{1F91D}\u200D\u{1F9D1}\u{1F3FD}");
+    expect(applySkinTone("\u{1F91D}", "medium")).toBe("\u{1F91D}\u{1F3FD}");
+  });
+
+  it("should replace an existing tone and leave other emoji alone", () => {
+    expect(applySkinTone("\u{1F44D}\u{1F3FF}", "light")).toBe(
+      "\u{1F44D}\u{1F3FB}"
+    );
+    expect(applySkinTone("\u{1F34E}", "light")).toBe("\u{1F34E}");
+  });
+
+  it("should tone the people in a composition", async () => {
+    const { assets, warnings } = await generate("\u{1F34E}+\u{1F44D}", {
+      all: true,
+      skinTone: "medium-dark",
+    });
+    const manifest = JSON.parse(
+      assets.get("site.webmanifest")!.buffer.toString()
+    );
+    expect(manifest.name).toBe("red apple");
+    expect(warnings).not.toContainEqual(
+      expect.stringContaining("skin tones")
+    );
+  }, 30000);
+
+  it("should warn when nothing takes a tone and reject unknown tones", async () => {
+    const { warnings } = await generate("\u{1F34E}", { skinTone: "light" });
+    expect(warnings).toContainEqual(
+      expect.stringContaining("doesn't come in skin tones")
+    );
+    await expect(
+      generate("\u{1F44D}", { skinTone: "green" as never })
+    ).rejects.toThrow('Invalid skin tone "green"');
+  }, 30000);
+});
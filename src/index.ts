@@ -1,9 +1,15 @@
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import { PNG } from "pngjs";
 
 // Import canvas library
-import { createCanvas, loadImage } from "@napi-rs/canvas";
+import {
+  createCanvas,
+  GlobalFonts,
+  loadImage,
+  SKRSContext2D,
+} from "@napi-rs/canvas";
 
 export interface EmojiEntry {
   name: string;
@@ -17,25 +23,116 @@ export interface EmojiEntry {
 const SIZES = {
   favicon: [16, 32, 48],
   apple: [57, 60, 72, 76, 114, 120, 144, 152, 180],
+  android: [192, 512],
 };
 
+// Resolution of the single emoji render every other size is derived from
+const HIGH_RES_SIZE = 512;
+
 function printHelp() {
   console.log(`
 emojico - Convert emoji to favicon and Apple touch icon assets
 
-Usage: emojico [emoji] [--out <directory>] [--all]
+Usage: emojico [emoji] [--out <directory>] [--all] [options]
+       emojico inspect <file> [--extract <directory>]
+
+Run without an emoji argument to interactively search and pick one, unless a config
+file provides the emoji. Flags override config file values.
+
+The emoji can also be a name, slug, GitHub shortcode or codepoint: "red apple", :tada:,
+red_apple, U+1F680. emojico exits with an error when no installed font has the emoji;
+set EMOJICO_ALLOW_MISSING_GLYPHS=1 to generate the missing-glyph box anyway.
+
+Compose two emoji with "🍎+🚀" (🚀 as a badge in a corner of 🍎) or "🍎/🚀" (the two
+overlapping diagonally).
 
-Run without an emoji argument to interactively search and pick one.
+Commands:
+  inspect <file>         Report on an ICO or PNG file: each ICO entry's size, bit depth,
+                         payload type (BMP or PNG), offset and mask, plus structural problems.
+                         Exits non-zero when problems are found
+    --extract, -x <dir>  Also write every ICO entry to <dir> as a PNG
 
 Options:
   --out, -o <directory>  Output directory for the generated assets (default: current directory)
-  --all                  Generate all assets (favicon.ico, PNG favicons, Apple touch icons, and og:image)
+  --all                  Generate all assets (favicon.ico, PNG favicons, Apple touch icons,
+                         web app manifest with Android Chrome icons, and og:image)
+  --background, -b <bg>  Icon background: a CSS color, linear-gradient(...) or radial-gradient(...)
+                         (default: transparent)
+  --shape <shape>        Background tile shape: square, circle, rounded or squircle (default: square)
+  --font <file>          Emoji font file (.ttf, .otf, .woff2), e.g. Twemoji or Noto Color Emoji,
+                         so the icons come out the same on every machine. Repeat for several
+  --emoji-style <name>   Font to draw the emoji with: a --font file name without extension,
+                         or an installed family (default: the first --font, else the
+                         platform's emoji font)
+  --skin-tone <tone>     Skin tone for emoji with people: light, medium-light, medium,
+                         medium-dark or dark
+  --ico-sizes <sizes>    Comma-separated sizes in favicon.ico, up to 256 (default: 16,32,48)
+  --ico-png-min <size>   Store favicon.ico sizes at least this large as PNG instead of
+                         bitmap (default: 64; 0 stores every size as PNG)
+  --preset <framework>   Lay out files for next (app router), vite, astro or sveltekit, relative
+                         to --out as the project root, and print that framework's snippet
+  --inject <file.html>   Insert the tags into the file's <head>, replacing the block from
+                         a previous run, instead of printing them
+  --config <file>        Read defaults from this config file (default: emojico.config.json,
+                         or the "emojico" key in package.json)
+  --no-config            Ignore any config file
   --help, -h             Show this help message
 
+Apple touch icon options (with --all):
+  --apple-background <bg>    Opaque background for Apple touch icons (default: --background, or white)
+  --apple-padding <fraction> Emoji inset per side, from 0 to 0.4 (default: 0.1)
+
+og:image and social card options (with --all):
+  --og-title <text>          Site title drawn on the card
+  --og-subtitle <text>       Tagline drawn under the title
+  --og-background <bg>       Card background (default: --background, or white)
+  --og-layout <layout>       emoji-only, emoji-left or emoji-above
+                             (default: emoji-left with text, emoji-only without)
+  --og-font <file>           Font file (.ttf, .otf, .woff2) for the title and subtitle
+  --og-text-color <color>    Text color (default: black or white, whichever contrasts)
+  --social-cards <names>     Comma-separated cards to render: og (1200x630), twitter (1200x600),
+                             linkedin (1200x627), square (1200x1200) (default: og)
+
+Composition options (with "🍎+🚀" or "🍎/🚀"):
+  --compose-scale <fraction> Size of the second emoji (default: 0.5 as a badge, 0.7 diagonally)
+  --compose-position <corner> Corner of the second emoji: top-left, top-right, bottom-left
+                             or bottom-right (default: bottom-right)
+
+Environment options:
+  --badge <text>             Short badge along the bottom of the tab icons, e.g. DEV
+  --badge-color <color>      Badge color (default: #e11d48)
+  --dot <color>              Colored dot in the bottom-right corner of the tab icons
+  --hue <degrees>            Rotate the tab icons' colors
+  --grayscale                Render the tab icons in grayscale
+  --variants <names>         Also write favicon-<name>.ico per environment, e.g. dev,staging
+                             (dev, staging, test, preview and local have their own badges)
+
+SVG favicon options (with --all):
+  --svg-embed <mode>         Embed the emoji as "text" (tiny, uses the browser's emoji font)
+                             or "image" (our render, looks the same everywhere)
+                             (default: text, or image with --font or --emoji-style)
+  --dark-background <bg>     favicon.svg background under prefers-color-scheme: dark
+
+Manifest options (with --all):
+  --name <name>              App name (default: the emoji's name)
+  --short-name <name>        Short app name (default: same as --name)
+  --theme-color <color>      Manifest theme_color (default: #ffffff)
+  --background-color <color> Manifest background_color, also the maskable icon fill (default: #ffffff)
+  --mask-preview             Also write maskable-preview.png showing the maskable icon
+                             cropped to circle, squircle, rounded square and teardrop
+
 Example:
   emojico 🍎
   emojico 🍎 --out ./icons
   emojico 🍎 --out ./icons --all
+  emojico 🍎 --ico-sizes 16,32,48,64,128,256
+  emojico 🚀 --all --og-title "Launchpad" --og-subtitle "Ship it" --og-background "#0b1021"
+  emojico inspect ./public/favicon.ico --extract ./favicon-parts
+  emojico 🍎 --background "#ffe4e1" --shape circle
+  emojico 🍎 --variants dev,staging
+  emojico :rocket: --all
+  emojico "🍎+🚀" --compose-position top-right
+  emojico 🍎 --background "linear-gradient(135deg, #ff9a9e, #fad0c4)" --shape rounded
 `);
   process.exit(0);
 }
@@ -47,56 +144,618 @@ function parseArgs() {
     printHelp();
   }
 
+  // Only flags that were passed are set, so they can override the config file
   let emoji = "";
-  let outDir = "."; // Default to current directory
-  let generateAll = false;
+  let outDir: string | undefined;
+  let generateAll: boolean | undefined;
+  let configPath: string | undefined;
+  let useConfig = true;
+  let inject: string | undefined;
+  let preset: PresetName | undefined;
+  const manifest: ManifestOptions = {};
+  let maskPreview: boolean | undefined;
+  let background: string | undefined;
+  let shape: IconShape | undefined;
+  let svgEmbed: SvgEmbed | undefined;
+  let darkBackground: string | undefined;
+  let icoSizes: number[] | undefined;
+  let icoPngMinSize: number | undefined;
+  let appleBackground: string | undefined;
+  let applePadding: number | undefined;
+  const og: OgImageOptions = {};
+  let socialCards: SocialCardName[] | undefined;
+  const overlay: IconOverlay = {};
+  const compose: ComposeOptions = {};
+  let variants: Record<string, IconOverlay> | undefined;
+  let font: string[] | undefined;
+  let emojiStyle: string | undefined;
+  let skinTone: SkinTone | undefined;
 
   for (let i = 0; i < args.length; i++) {
-    if (args[i] === "--out" || args[i] === "-o") {
+    // Read the value following a flag, bailing out if it's missing
+    const readValue = (what: string): string => {
       if (i + 1 < args.length) {
-        outDir = args[i + 1];
-        i++; // Skip next argument
-      } else {
-        console.error(`Error: ${args[i]} requires a directory argument.`);
-        process.exit(1);
+        return args[++i];
       }
+      console.error(`Error: ${args[i]} requires ${what} argument.`);
+      process.exit(1);
+    };
+
+    if (args[i] === "--out" || args[i] === "-o") {
+      outDir = readValue("a directory");
     } else if (args[i] === "--all") {
       generateAll = true;
+    } else if (args[i] === "--config") {
+      configPath = readValue("a file");
+    } else if (args[i] === "--no-config") {
+      useConfig = false;
+    } else if (args[i] === "--inject") {
+      inject = readValue("an HTML file");
+    } else if (args[i] === "--preset") {
+      const value = readValue("a framework");
+      if (!PRESET_NAMES.includes(value as PresetName)) {
+        console.error(
+          `Error: --preset must be one of: ${PRESET_NAMES.join(", ")}.`
+        );
+        process.exit(1);
+      }
+      preset = value as PresetName;
+    } else if (args[i] === "--name") {
+      manifest.name = readValue("a name");
+    } else if (args[i] === "--short-name") {
+      manifest.shortName = readValue("a name");
+    } else if (args[i] === "--theme-color") {
+      manifest.themeColor = readValue("a color");
+    } else if (args[i] === "--background-color") {
+      manifest.backgroundColor = readValue("a color");
+    } else if (args[i] === "--mask-preview") {
+      maskPreview = true;
+    } else if (args[i] === "--background" || args[i] === "-b") {
+      background = readValue("a color or gradient");
+    } else if (args[i] === "--shape") {
+      const value = readValue("a shape");
+      if (!ICON_SHAPES.includes(value as IconShape)) {
+        console.error(
+          `Error: --shape must be one of: ${ICON_SHAPES.join(", ")}.`
+        );
+        process.exit(1);
+      }
+      shape = value as IconShape;
+    } else if (args[i] === "--svg-embed") {
+      const value = readValue("an embed mode");
+      if (!SVG_EMBEDS.includes(value as SvgEmbed)) {
+        console.error(
+          `Error: --svg-embed must be one of: ${SVG_EMBEDS.join(", ")}.`
+        );
+        process.exit(1);
+      }
+      svgEmbed = value as SvgEmbed;
+    } else if (args[i] === "--dark-background") {
+      darkBackground = readValue("a color or gradient");
+    } else if (args[i] === "--apple-background") {
+      appleBackground = readValue("a color or gradient");
+    } else if (args[i] === "--apple-padding") {
+      const value = readValue("a fraction");
+      applePadding = Number(value);
+      if (!(applePadding >= 0 && applePadding <= 0.4)) {
+        console.error(`Error: --apple-padding must be a number from 0 to 0.4.`);
+        process.exit(1);
+      }
+    } else if (args[i] === "--og-title") {
+      og.title = readValue("a title");
+    } else if (args[i] === "--og-subtitle") {
+      og.subtitle = readValue("a subtitle");
+    } else if (args[i] === "--og-background") {
+      og.background = readValue("a color or gradient");
+    } else if (args[i] === "--og-layout") {
+      const value = readValue("a layout");
+      if (!OG_LAYOUTS.includes(value as OgLayout)) {
+        console.error(
+          `Error: --og-layout must be one of: ${OG_LAYOUTS.join(", ")}.`
+        );
+        process.exit(1);
+      }
+      og.layout = value as OgLayout;
+    } else if (args[i] === "--social-cards") {
+      const value = readValue("a list of cards");
+      socialCards = value
+        .split(",")
+        .map((name) => name.trim() as SocialCardName);
+      const invalid = socialCards.find(
+        (name) => !SOCIAL_CARD_NAMES.includes(name)
+      );
+      if (invalid !== undefined) {
+        console.error(
+          `Error: --social-cards must list cards from: ${SOCIAL_CARD_NAMES.join(", ")} (got "${invalid}").`
+        );
+        process.exit(1);
+      }
+    } else if (args[i] === "--font") {
+      font = [...(font ?? []), readValue("a font file")];
+    } else if (args[i] === "--emoji-style") {
+      emojiStyle = readValue("a font name");
+    } else if (args[i] === "--skin-tone") {
+      const value = readValue("a skin tone");
+      if (!SKIN_TONES.includes(value as SkinTone)) {
+        console.error(
+          `Error: --skin-tone must be one of: ${SKIN_TONES.join(", ")}.`
+        );
+        process.exit(1);
+      }
+      skinTone = value as SkinTone;
+    } else if (args[i] === "--og-font") {
+      og.font = readValue("a font file");
+    } else if (args[i] === "--og-text-color") {
+      og.textColor = readValue("a color");
+    } else if (args[i] === "--ico-sizes") {
+      const value = readValue("a list of sizes");
+      icoSizes = value.split(",").map((size) => Number(size.trim()));
+      if (icoSizes.some((size) => !Number.isInteger(size))) {
+        console.error(
+          `Error: --ico-sizes must be a comma-separated list of sizes, e.g. 16,32,48.`
+        );
+        process.exit(1);
+      }
+    } else if (args[i] === "--badge") {
+      overlay.badge = readValue("a text");
+    } else if (args[i] === "--badge-color") {
+      overlay.badgeColor = readValue("a color");
+    } else if (args[i] === "--dot") {
+      overlay.dot = readValue("a color");
+    } else if (args[i] === "--hue") {
+      const value = readValue("an angle");
+      overlay.hue = Number(value);
+      if (!value.trim() || !Number.isFinite(overlay.hue)) {
+        console.error(`Error: --hue must be a number of degrees.`);
+        process.exit(1);
+      }
+    } else if (args[i] === "--grayscale") {
+      overlay.grayscale = true;
+    } else if (args[i] === "--variants") {
+      const value = readValue("a list of names");
+      variants = resolveVariants(value.split(",").map((name) => name.trim()));
+    } else if (args[i] === "--compose-scale") {
+      const value = readValue("a fraction");
+      compose.scale = Number(value);
+      if (!(compose.scale > 0 && compose.scale <= 1)) {
+        console.error(`Error: --compose-scale must be a fraction up to 1.`);
+        process.exit(1);
+      }
+    } else if (args[i] === "--compose-position") {
+      const value = readValue("a corner");
+      if (!CORNERS.includes(value as Corner)) {
+        console.error(
+          `Error: --compose-position must be one of: ${CORNERS.join(", ")}.`
+        );
+        process.exit(1);
+      }
+      compose.position = value as Corner;
+    } else if (args[i] === "--ico-png-min") {
+      const value = readValue("a size");
+      icoPngMinSize = Number(value);
+      if (!Number.isInteger(icoPngMinSize) || icoPngMinSize < 0) {
+        console.error(`Error: --ico-png-min must be a whole number.`);
+        process.exit(1);
+      }
     } else if (!emoji && !args[i].startsWith("-")) {
       emoji = args[i];
     }
   }
 
-  return { emoji, outDir, generateAll };
+  return {
+    emoji,
+    outDir,
+    configPath,
+    useConfig,
+    inject,
+    preset,
+    options: {
+      all: generateAll,
+      manifest,
+      maskPreview,
+      background,
+      shape,
+      svgEmbed,
+      darkBackground,
+      icoSizes,
+      icoPngMinSize,
+      appleBackground,
+      applePadding,
+      og,
+      socialCards,
+      overlay,
+      variants,
+      compose,
+      font,
+      emojiStyle,
+      skinTone,
+    },
+  };
+}
+
+interface SearchTerms {
+  name: string;
+  keywords: string[];
+  /** Words of the name and of the keywords, for typo matching */
+  nameWords: string[];
+  keywordWords: string[];
+}
+
+const searchTermsCache = new WeakMap<
+  Array<[string, EmojiEntry]>,
+  SearchTerms[]
+>();
+
+/**
+ * Lowercased names plus emojilib keywords (CLDR keywords and common aliases
+ * like "tada" or "+1", most relevant first) for each entry, built once per
+ * list
+ */
+function getSearchTerms(entries: Array<[string, EmojiEntry]>): SearchTerms[] {
+  let terms = searchTermsCache.get(entries);
+  if (!terms) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const emojiKeywords: Record<string, string[]> = require("emojilib");
+    const wordsOf = (texts: string[]) => [
+      ...new Set(texts.flatMap((text) => text.split(/[\s:,.!-]+/))),
+    ].filter((word) => word.length > 0);
+    terms = entries.map(([emoji, entry]) => {
+      const name = entry.name.toLowerCase();
+      const keywords = (emojiKeywords[emoji] ?? []).map((keyword) =>
+        keyword.toLowerCase().replace(/_/g, " ")
+      );
+      return {
+        name,
+        keywords,
+        nameWords: wordsOf([name]),
+        keywordWords: wordsOf(keywords),
+      };
+    });
+    searchTermsCache.set(entries, terms);
+  }
+  return terms;
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and swapped neighbors. Gives up with max + 1 once it's over `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  // Each character of a that b lacks takes an edit of its own, which rules
+  // out most words before filling in the table
+  let missing = 0;
+  for (const char of a) {
+    if (!b.includes(char) && ++missing > max) return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      let value = Math.min(
+        row[j] + 1,
+        next[j - 1] + 1,
+        row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+      next.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousRow = row;
+    row = next;
+  }
+  return row[b.length];
 }
 
+/**
+ * Rank emoji for a search query: name matches first, then keyword matches,
+ * then names containing the query anywhere, then entries matching every
+ * query word, allowing a typo in words of 4+ letters and two in 7+. Ties
+ * keep the order of `entries`. With a group, e.g. "Food & Drink", only
+ * entries from that group count. Returns every match, best first
+ */
 export function searchEmoji(
   entries: Array<[string, EmojiEntry]>,
-  query: string
+  query: string,
+  group?: string
 ): Array<[string, EmojiEntry]> {
-  if (!query.trim()) return entries.slice(0, 10);
-  const lower = query.toLowerCase();
+  const inGroup = (entry: EmojiEntry) =>
+    group === undefined || entry.group === group;
+  if (!query.trim()) {
+    return entries.filter(([, entry]) => inGroup(entry));
+  }
+  const lower = query.toLowerCase().replace(/_/g, " ").trim();
 
-  const scored: Array<{ item: [string, EmojiEntry]; score: number }> = [];
+  // How far each query word is from a word, memoized since most words
+  // appear in many entries. Prefix matches cover half-typed queries
+  const queryWords = lower.split(/\s+/).map((text) => {
+    const max = text.length >= 7 ? 2 : text.length >= 4 ? 1 : 0;
+    const costs = new Map<string, number>();
+    const cost = (word: string) => {
+      let value = costs.get(word);
+      if (value === undefined) {
+        value = word.startsWith(text)
+          ? 0
+          : max === 0
+            ? 1
+            : word.length <= text.length
+              ? editDistance(text, word, max)
+              : Math.min(
+                  editDistance(text, word, max),
+                  editDistance(text, word.slice(0, text.length), max) + 0.25
+                );
+        costs.set(word, value);
+      }
+      return value;
+    };
+    return { text, max, cost };
+  });
+  const bestCost = (words: string[], cost: (word: string) => number) =>
+    words.reduce((best, word) => Math.min(best, cost(word)), Infinity);
 
-  for (const entry of entries) {
-    const name = entry[1].name.toLowerCase();
-    let score = 0;
-    if (name === lower) score = 3;
-    else if (name.startsWith(lower)) score = 2;
-    else if (name.includes(lower)) score = 1;
-    else {
-      const words = lower.split(/\s+/);
-      if (words.every((w) => name.includes(w))) score = 0.5;
+  const directScore = ({ name, keywords }: SearchTerms): number => {
+    if (name === lower) return 100;
+    if (name.startsWith(lower)) return 90;
+    if (name.includes(` ${lower}`)) return 80;
+    // Earlier keywords are the more relevant ones, and a keyword says more
+    // about an emoji with few of them
+    const keywordRank = (index: number) =>
+      Math.min(index, 9) / 10 + Math.min(keywords.length, 99) / 1000;
+    const exact = keywords.indexOf(lower);
+    if (exact !== -1) return 70 - keywordRank(exact);
+    const prefix = keywords.findIndex((keyword) => keyword.startsWith(lower));
+    if (prefix !== -1) return 60 - keywordRank(prefix);
+    if (name.includes(lower)) return 50;
+    return 0;
+  };
+
+  // Every query word in the name or keywords, or close to one. Typos in the
+  // name count for less than typos in a keyword
+  const fuzzyScore = (terms: SearchTerms): number => {
+    const { name } = terms;
+    let typos = 0;
+    for (const { text, max, cost } of queryWords) {
+      if (name.includes(text)) continue;
+      const inName = bestCost(terms.nameWords, cost);
+      const inKeywords = bestCost(terms.keywordWords, cost);
+      if (Math.floor(inName) <= max) typos += inName;
+      else if (Math.floor(inKeywords) <= max) typos += inKeywords + 0.5;
+      else return 0;
+    }
+    return 40 / (1 + typos);
+  };
+
+  const terms = getSearchTerms(entries);
+  const scored: Array<{ item: [string, EmojiEntry]; score: number }> = [];
+  const rest: number[] = [];
+  entries.forEach((item, i) => {
+    if (!inGroup(item[1])) return;
+    const value = directScore(terms[i]);
+    if (value > 0) scored.push({ item, score: value });
+    else rest.push(i);
+  });
+  // Typos are a fallback: only look for them when hardly anything matches
+  // as typed, so a broad query isn't padded with near misses
+  if (scored.length < 10) {
+    for (const i of rest) {
+      const value = fuzzyScore(terms[i]);
+      if (value > 0) scored.push({ item: entries[i], score: value });
     }
-    if (score > 0) scored.push({ item: entry, score });
   }
 
   scored.sort((a, b) => b.score - a.score);
-  return scored.slice(0, 10).map((s) => s.item);
+  return scored.map((s) => s.item);
+}
+
+// How many close matches an ambiguous name lists
+const MAX_SUGGESTIONS = 10;
+
+/**
+ * Turn what was typed into an emoji: the glyph itself, a CLDR name
+ * ("red apple"), a unicode-emoji-json slug ("red_apple"), a GitHub
+ * shortcode (":tada:", ":+1:") or codepoints ("U+1F680", "1f468-200d-1f4bb").
+ * Anything with non-ASCII characters is taken as the glyph, and so is a
+ * single ASCII character, for letter icons.
+ * Unknown or ambiguous names throw, listing the closest matches
+ */
+export function resolveEmoji(input: string): string {
+  const value = input.trim();
+  if (/[^\x00-\x7f]/.test(value) || value.length <= 1) return input;
+
+  // Bare hex like "face" or "cafe" is a word; codepoints need U+ or a digit
+  const codepoints =
+    /^(?:u\+)?[0-9a-f]{4,6}(?:[\s_-]+(?:u\+)?[0-9a-f]{4,6})*$/i;
+  if (codepoints.test(value) && /^u\+|\d/i.test(value)) {
+    const parts = value
+      .split(/[\s_-]+/)
+      .map((part) => parseInt(part.replace(/^u\+/i, ""), 16));
+    try {
+      return String.fromCodePoint(...parts);
+    } catch {
+      throw new Error(`Invalid codepoint in "${input}".`);
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const emojiData: Record<string, EmojiEntry> = require("unicode-emoji-json");
+  const entries = Object.entries(emojiData);
+  // "Red Apple", "red_apple" and ":red-apple:" all become "red apple"
+  const normalize = (text: string) =>
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, " ")
+      .trim();
+  const query = normalize(value.replace(/^:(.+):$/, "$1"));
+  const exact = entries.find(
+    ([, entry]) =>
+      normalize(entry.name) === query || normalize(entry.slug) === query
+  );
+  if (exact) return exact[0];
+
+  // GitHub shortcodes that aren't names, e.g. :tada: or :+1:
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const shortcodes: Record<string, string | string[]> = require(
+    "emojibase-data/en/shortcodes/github.json"
+  );
+  const shortcode = value.replace(/^:(.+):$/, "$1").toLowerCase();
+  const hexcode = Object.keys(shortcodes).find((hex) =>
+    [shortcodes[hex]].flat().includes(shortcode)
+  );
+  if (hexcode) {
+    const glyph = String.fromCodePoint(
+      ...hexcode.split("-").map((part) => parseInt(part, 16))
+    );
+    // The shortcode data leaves out the emoji presentation selector
+    const entry = findEmojiEntry(glyph);
+    return entries.find(([, candidate]) => candidate === entry)?.[0] ?? glyph;
+  }
+
+  const candidates = searchEmoji(entries, query);
+  if (candidates.length === 0) {
+    throw new Error(`No emoji found for "${input}".`);
+  }
+  const list = candidates
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([emoji, entry]) => `  ${emoji}  ${entry.name} (${entry.slug})`)
+    .concat(
+      candidates.length > MAX_SUGGESTIONS
+        ? [`  …and ${candidates.length - MAX_SUGGESTIONS} more`]
+        : []
+    )
+    .join("\n");
+  throw new Error(
+    `"${input}" doesn't name a single emoji. Did you mean one of these?\n${list}`
+  );
+}
+
+export type SkinTone =
+  | "light"
+  | "medium-light"
+  | "medium"
+  | "medium-dark"
+  | "dark";
+
+// Fitzpatrick modifiers, lightest first
+const SKIN_TONE_MODIFIERS: Record<SkinTone, string> = {
+  light: "\u{1F3FB}",
+  "medium-light": "\u{1F3FC}",
+  medium: "\u{1F3FD}",
+  "medium-dark": "\u{1F3FE}",
+  dark: "\u{1F3FF}",
+};
+
+const SKIN_TONES = Object.keys(SKIN_TONE_MODIFIERS) as SkinTone[];
+
+const SKIN_TONE_MODIFIER = /[\u{1F3FB}-\u{1F3FF}]/gu;
+
+let entriesByBareForm: Map<string, EmojiEntry> | undefined;
+
+/**
+ * Look an emoji up in the dataset, which lists one form per emoji: with or
+ * without the emoji presentation selector, and without skin tones
+ */
+function findEmojiEntry(emoji: string): EmojiEntry | undefined {
+  const bare = (text: string) =>
+    text.replace(/\uFE0F/g, "").replace(SKIN_TONE_MODIFIER, "");
+  if (!entriesByBareForm) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const emojiData: Record<string, EmojiEntry> = require("unicode-emoji-json");
+    entriesByBareForm = new Map(
+      Object.entries(emojiData).map(([key, entry]) => [bare(key), entry])
+    );
+  }
+  return entriesByBareForm.get(bare(emoji));
+}
+
+/**
+ * Give every person in an emoji the skin tone, replacing any tone it had:
+ * 👍 becomes 👍🏽 and 🧑‍🤝‍🧑 becomes 🧑🏽‍🤝‍🧑🏽. Emoji without people come back
+ * unchanged; EmojiEntry.skin_tone_support says which ones have tones
+ */
+export function applySkinTone(emoji: string, tone: SkinTone): string {
+  const modifier = SKIN_TONE_MODIFIERS[tone];
+  if (!modifier) {
+    throw new Error(
+      `Invalid skin tone "${tone}". Expected one of: ${SKIN_TONES.join(", ")}.`
+    );
+  }
+  // The handshake between two people takes no tone of its own
+  const isSequence = emoji.includes("\u200D");
+  return emoji
+    .replace(SKIN_TONE_MODIFIER, "")
+    .replace(/(\p{Emoji_Modifier_Base})\uFE0F?/gu, (match, base: string) =>
+      isSequence && base === "\u{1F91D}" ? match : base + modifier
+    );
+}
+
+/** What the picker remembers between runs */
+interface PickerState {
+  /** Emoji generated from, most recent first */
+  recent: string[];
+  /** Emoji starred in the picker, in the order they were starred */
+  favorites: string[];
+}
+
+const MAX_RECENT_EMOJI = 10;
+
+/**
+ * Picker state lives in $XDG_CONFIG_HOME/emojico/state.json, or
+ * ~/.config/emojico/state.json when XDG_CONFIG_HOME isn't set
+ */
+function getPickerStatePath(): string {
+  const configHome =
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(configHome, "emojico", "state.json");
+}
+
+function loadPickerState(): PickerState {
+  const strings = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === "string")
+      : [];
+  try {
+    const state = JSON.parse(fs.readFileSync(getPickerStatePath(), "utf8"));
+    return {
+      recent: strings(state?.recent),
+      favorites: strings(state?.favorites),
+    };
+  } catch {
+    // Nothing remembered yet, or a file we can't make sense of
+    return { recent: [], favorites: [] };
+  }
+}
+
+function savePickerState(state: PickerState) {
+  try {
+    const file = getPickerStatePath();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(state, null, 2) + "\n");
+  } catch {
+    // Remembering is a convenience; a read-only home shouldn't fail the run
+  }
+}
+
+/**
+ * Put an emoji at the top of the picker's recent list. Anything that isn't
+ * in the emoji dataset, like a letter icon, is left out
+ */
+function rememberRecentEmoji(emoji: string) {
+  if (!findEmojiEntry(emoji)) return;
+  const state = loadPickerState();
+  state.recent = [
+    emoji,
+    ...state.recent.filter((item) => item !== emoji),
+  ].slice(0, MAX_RECENT_EMOJI);
+  savePickerState(state);
 }
 
-function interactiveEmojiPicker(): Promise<string> {
+function interactiveEmojiPicker(initialTone?: SkinTone): Promise<string> {
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   const emojiData: Record<string, EmojiEntry> =
     require("unicode-emoji-json");
@@ -112,8 +771,24 @@ function interactiveEmojiPicker(): Promise<string> {
   return new Promise((resolve) => {
     let query = "";
     let selectedIndex = 0;
-    let results = searchEmoji(emojiEntries, "");
+    let results: Array<[string, EmojiEntry]> = [];
     let prevLineCount = 0;
+    const state = loadPickerState();
+    // "All", then the dataset's groups in order
+    const groups = [
+      undefined,
+      ...new Set(emojiEntries.map(([, entry]) => entry.group)),
+    ];
+    let groupIndex = 0;
+    let scrollTop = 0;
+    // 0 is the default yellow, then SKIN_TONES in order
+    let tone = initialTone ? SKIN_TONES.indexOf(initialTone) + 1 : 0;
+
+    // Preview the chosen tone on every emoji that has one
+    const withTone = ([emoji, entry]: [string, EmojiEntry]) =>
+      tone > 0 && entry.skin_tone_support
+        ? applySkinTone(emoji, SKIN_TONES[tone - 1])
+        : emoji;
 
     const stdout = process.stdout;
     const stdin = process.stdin;
@@ -128,6 +803,43 @@ function interactiveEmojiPicker(): Promise<string> {
       stdin.setRawMode(false);
       stdin.pause();
       stdin.removeAllListeners("data");
+      stdout.off("resize", onResize);
+    }
+
+    // Before anything is typed, favorites and then recent emoji come first
+    function search() {
+      const group = groups[groupIndex];
+      results = searchEmoji(emojiEntries, query, group);
+      if (!query.trim()) {
+        const remembered: Array<[string, EmojiEntry]> = [];
+        for (const emoji of new Set([...state.favorites, ...state.recent])) {
+          const entry = findEmojiEntry(emoji);
+          if (entry && (!group || entry.group === group)) {
+            remembered.push([emoji, entry]);
+          }
+        }
+        const seen = new Set(remembered.map(([emoji]) => emoji));
+        results = [
+          ...remembered,
+          ...results.filter(([emoji]) => !seen.has(emoji)),
+        ];
+      }
+      selectedIndex = 0;
+      scrollTop = 0;
+    }
+
+    // Fill the terminal, leaving room for the tabs, search line, position and
+    // hints, plus the line the cursor ends on
+    function visibleRows() {
+      return Math.max(1, (stdout.rows || 24) - 6);
+    }
+
+    // Resizing reflows what's on screen, so the picker's old lines can't be
+    // counted back up to; start over from a clear screen instead
+    function onResize() {
+      stdout.write("\x1b[2J\x1b[H");
+      prevLineCount = 0;
+      render();
     }
 
     function render() {
@@ -136,28 +848,66 @@ function interactiveEmojiPicker(): Promise<string> {
       }
       stdout.write("\x1b[0J");
 
+      // Tabs named by the group's first word, e.g. "Food" for Food & Drink
+      const tabs = groups.map((group, i) => {
+        const label = group ? group.split(" ")[0] : "All";
+        return i === groupIndex
+          ? `\x1b[7m ${label} \x1b[0m`
+          : `\x1b[2m${label}\x1b[0m`;
+      });
+
       const lines: string[] = [];
+      lines.push(`  ${tabs.join(" ")}`);
       lines.push(`  \x1b[1m🔍 Search:\x1b[0m ${query}\x1b[2m█\x1b[0m`);
       lines.push("");
 
       if (results.length === 0) {
         lines.push("  No emoji found");
       } else {
-        for (let i = 0; i < results.length; i++) {
-          const [emoji, entry] = results[i];
+        // Keep the selection inside the visible rows
+        const rows = visibleRows();
+        scrollTop = Math.max(
+          0,
+          Math.min(
+            Math.max(scrollTop, selectedIndex - rows + 1),
+            selectedIndex,
+            results.length - rows
+          )
+        );
+        const end = Math.min(results.length, scrollTop + rows);
+        for (let i = scrollTop; i < end; i++) {
+          const [, entry] = results[i];
+          const emoji = withTone(results[i]);
+          const star = state.favorites.includes(emoji)
+            ? " \x1b[33m★\x1b[0m"
+            : "";
           if (i === selectedIndex) {
+            // A recent emoji may already carry a tone of its own
+            const shownTone =
+              tone > 0
+                ? SKIN_TONES[tone - 1]
+                : SKIN_TONES.find((t) =>
+                    emoji.includes(SKIN_TONE_MODIFIERS[t])
+                  ) ?? "default";
+            const toneHint = entry.skin_tone_support
+              ? `  \x1b[2m‹ ${shownTone} ›\x1b[0m`
+              : "";
             lines.push(
-              `  \x1b[36m❯\x1b[0m ${emoji}  \x1b[1m${entry.name}\x1b[0m`
+              `  \x1b[36m❯\x1b[0m ${emoji}  \x1b[1m${entry.name}\x1b[0m${star}${toneHint}`
             );
           } else {
-            lines.push(`    ${emoji}  ${entry.name}`);
+            lines.push(`    ${emoji}  ${entry.name}${star}`);
           }
         }
       }
 
-      lines.push("");
       lines.push(
-        "  \x1b[2m↑/↓ navigate · enter select · esc quit\x1b[0m"
+        results.length > 0
+          ? `  \x1b[2m${selectedIndex + 1} of ${results.length} · pgup/pgdn/home/end · ctrl+s star\x1b[0m`
+          : ""
+      );
+      lines.push(
+        "  \x1b[2mtab group · ↑/↓ navigate · ←/→ skin tone · enter select · esc quit\x1b[0m"
       );
 
       stdout.write(lines.join("\n") + "\n");
@@ -176,7 +926,8 @@ function interactiveEmojiPicker(): Promise<string> {
 
       if (key === "\r") {
         if (results.length > 0 && selectedIndex < results.length) {
-          const [emoji, entry] = results[selectedIndex];
+          const [, entry] = results[selectedIndex];
+          const emoji = withTone(results[selectedIndex]);
           cleanup();
           if (prevLineCount > 0) {
             stdout.write(`\x1b[${prevLineCount}A\x1b[0J`);
@@ -192,7 +943,53 @@ function interactiveEmojiPicker(): Promise<string> {
           selectedIndex = Math.max(0, selectedIndex - 1);
         } else if (key === "\x1b[B") {
           selectedIndex = Math.min(results.length - 1, selectedIndex + 1);
+        } else if (key === "\x1b[5~") {
+          selectedIndex = Math.max(0, selectedIndex - visibleRows());
+        } else if (key === "\x1b[6~") {
+          selectedIndex = Math.max(
+            0,
+            Math.min(results.length - 1, selectedIndex + visibleRows())
+          );
+        } else if (
+          ["\x1b[H", "\x1bOH", "\x1b[1~", "\x1b[7~"].includes(key)
+        ) {
+          selectedIndex = 0;
+        } else if (
+          ["\x1b[F", "\x1bOF", "\x1b[4~", "\x1b[8~"].includes(key)
+        ) {
+          selectedIndex = Math.max(0, results.length - 1);
+        } else if (key === "\x1b[Z") {
+          // Shift+Tab
+          groupIndex = (groupIndex + groups.length - 1) % groups.length;
+          search();
+        } else if (
+          (key === "\x1b[C" || key === "\x1b[D") &&
+          results[selectedIndex]?.[1].skin_tone_support
+        ) {
+          const step = key === "\x1b[C" ? 1 : SKIN_TONES.length;
+          tone = (tone + step) % (SKIN_TONES.length + 1);
+        }
+        render();
+        return;
+      }
+
+      // Ctrl+S stars the highlighted emoji, in the tone it's shown in, or
+      // unstars it. The list keeps its order until the next run
+      if (key === "\x13") {
+        if (results[selectedIndex]) {
+          const emoji = withTone(results[selectedIndex]);
+          state.favorites = state.favorites.includes(emoji)
+            ? state.favorites.filter((item) => item !== emoji)
+            : [...state.favorites, emoji];
+          savePickerState(state);
+          render();
         }
+        return;
+      }
+
+      if (key === "\t") {
+        groupIndex = (groupIndex + 1) % groups.length;
+        search();
         render();
         return;
       }
@@ -200,8 +997,7 @@ function interactiveEmojiPicker(): Promise<string> {
       if (key === "\x7f" || key === "\b") {
         if (query.length > 0) {
           query = query.slice(0, -1);
-          selectedIndex = 0;
-          results = searchEmoji(emojiEntries, query);
+          search();
           render();
         }
         return;
@@ -209,14 +1005,15 @@ function interactiveEmojiPicker(): Promise<string> {
 
       if (key >= " " && key <= "~") {
         query += key;
-        selectedIndex = 0;
-        results = searchEmoji(emojiEntries, query);
+        search();
         render();
         return;
       }
     }
 
     stdin.on("data", onData);
+    stdout.on("resize", onResize);
+    search();
     render();
   });
 }
@@ -253,9 +1050,22 @@ export function getDirCompletions(input: string): string[] {
   }
 }
 
-function interactiveFolderPrompt(): Promise<string> {
+/**
+ * Ask for the output folder. When a framework preset is suggested, the
+ * prompt starts empty and pressing enter right away picks the preset. A
+ * preset that was asked for always applies, and the folder is the project
+ * root to lay it out in
+ */
+function interactiveFolderPrompt(
+  suggestedPreset?: PresetName,
+  presetIsOptional = true
+): Promise<{ folder: string; preset?: PresetName }> {
+  const requiredPreset = presetIsOptional ? undefined : suggestedPreset;
+  const layout = requiredPreset
+    ? ` (${PRESETS[requiredPreset].label} layout)`
+    : "";
   return new Promise((resolve) => {
-    let value = "./";
+    let value = suggestedPreset ? "" : "./";
     let completions = getDirCompletions(value);
     let selectedCompletion = 0;
     let prevLineCount = 0;
@@ -282,8 +1092,14 @@ function interactiveFolderPrompt(): Promise<string> {
       stdout.write("\x1b[0J");
 
       const lines: string[] = [];
+      const placeholder = requiredPreset
+        ? ` \x1b[2m${value ? "" : "(enter: current folder) "}${layout.trim()}\x1b[0m`
+        : suggestedPreset && !value
+          ? ` \x1b[2m(enter: ${PRESETS[suggestedPreset].label} layout)\x1b[0m`
+          : "";
+      const prompt = requiredPreset ? "Project folder" : "Output folder";
       lines.push(
-        `  \x1b[1m\u{1F4C1} Output folder:\x1b[0m ${value}\x1b[2m\u2588\x1b[0m`
+        `  \x1b[1m\u{1F4C1} ${prompt}:\x1b[0m ${value}\x1b[2m\u2588\x1b[0m${placeholder}`
       );
       lines.push("");
 
@@ -334,8 +1150,18 @@ function interactiveFolderPrompt(): Promise<string> {
         if (prevLineCount > 0) {
           stdout.write(`\x1b[${prevLineCount}A\x1b[0J`);
         }
-        console.log(`  \u{1F4C1} Output folder: ${finalValue}`);
-        resolve(finalValue);
+        if (suggestedPreset && !value && !requiredPreset) {
+          const { label } = PRESETS[suggestedPreset];
+          console.log(`  \u{1F4C1} Output folder: ${label} layout`);
+          resolve({ folder: ".", preset: suggestedPreset });
+          return;
+        }
+        if (requiredPreset) {
+          console.log(`  \u{1F4C1} Project folder: ${finalValue}${layout}`);
+        } else {
+          console.log(`  \u{1F4C1} Output folder: ${finalValue}`);
+        }
+        resolve({ folder: finalValue, preset: requiredPreset });
         return;
       }
 
@@ -414,12 +1240,12 @@ function interactiveAllToggle(): Promise<boolean> {
           `  \x1b[36m\u276f\x1b[0m \x1b[1mfavicon.ico only\x1b[0m`
         );
         lines.push(
-          `    All assets (favicons, Apple touch icons, og:image)`
+          `    All assets (favicons, Apple touch icons, web manifest, og:image)`
         );
       } else {
         lines.push(`    favicon.ico only`);
         lines.push(
-          `  \x1b[36m\u276f\x1b[0m \x1b[1mAll assets (favicons, Apple touch icons, og:image)\x1b[0m`
+          `  \x1b[36m\u276f\x1b[0m \x1b[1mAll assets (favicons, Apple touch icons, web manifest, og:image)\x1b[0m`
         );
       }
 
@@ -469,6 +1295,186 @@ function interactiveAllToggle(): Promise<boolean> {
   });
 }
 
+/** Where a composition's badge sits on the icon */
+export type Corner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+const CORNERS: Corner[] = ["top-left", "top-right", "bottom-left", "bottom-right"];
+
+export interface ComposeOptions {
+  /**
+   * Size of the second emoji as a fraction of the icon (default: 0.5 for a
+   * corner badge, 0.7 when overlapping diagonally)
+   */
+  scale?: number;
+  /**
+   * Corner the second emoji sits in (default: bottom-right). When overlapping
+   * diagonally, the main emoji takes the opposite corner
+   */
+  position?: Corner;
+}
+
+interface EmojiComposition {
+  emoji: string;
+  second?: {
+    emoji: string;
+    layout: "badge" | "diagonal";
+    scale: number;
+    position: Corner;
+  };
+}
+
+/**
+ * Split a composition into its parts: "🍎+🚀" puts 🚀 as a badge in a corner
+ * of 🍎, "🍎/🚀" overlaps the two diagonally. Anything else is one emoji.
+ * Each part goes through resolveEmoji, so "apple+rocket" works too
+ */
+function parseComposition(
+  input: string,
+  options: ComposeOptions = {}
+): EmojiComposition {
+  // The + in "U+1F680" and shortcodes like ":+1:" don't compose anything,
+  // but the one in "emu+rocket" does. A shortcode is taken whole, so a colon
+  // only stands alone when it doesn't start one
+  const match =
+    /^((?::[^:\s]+:|[^:]|:(?![^:\s]+:))*?)(\/|\+(?!(?<=(?:^|[^a-z0-9])u\+)[0-9a-f]{4,6}\b))(.*)$/isu.exec(
+      input
+    );
+  if (!match) return { emoji: resolveEmoji(input) };
+
+  const [, first, operator, second] = match;
+  if (!first.trim() || !second.trim()) {
+    throw new Error(
+      `Invalid composition "${input}". Put an emoji on both sides of "${operator}", e.g. 🍎${operator}🚀.`
+    );
+  }
+  const layout = operator === "+" ? "badge" : "diagonal";
+  const { scale = layout === "badge" ? 0.5 : 0.7, position = "bottom-right" } =
+    options;
+  if (!(scale > 0 && scale <= 1)) {
+    throw new Error(
+      `Invalid composition scale "${scale}". Expected a fraction up to 1.`
+    );
+  }
+  if (!CORNERS.includes(position)) {
+    throw new Error(
+      `Invalid composition position "${position}". Expected one of: ${CORNERS.join(", ")}.`
+    );
+  }
+  return {
+    emoji: resolveEmoji(first.trim()),
+    second: { emoji: resolveEmoji(second.trim()), layout, scale, position },
+  };
+}
+
+// The platform emoji fonts, so the output depends on the machine unless a
+// font is given
+const EMOJI_FONT_FAMILY =
+  '"Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", "EmojiOne Color", sans-serif';
+
+/**
+ * Draw an emoji glyph centered on a point, as large as a box of `box` pixels
+ */
+function drawEmojiGlyph(
+  ctx: SKRSContext2D,
+  emoji: string,
+  x: number,
+  y: number,
+  box: number,
+  family = EMOJI_FONT_FAMILY
+) {
+  const fontSize = Math.floor(box * 0.8);
+  ctx.font = `${fontSize}px ${family}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(emoji, x, y);
+}
+
+/** Code points that draw nothing themselves: ZWJ, variation selectors, tags */
+const INVISIBLE_CODEPOINT = /[\u200D\uFE00-\uFE0F\u{E0020}-\u{E007F}]/u;
+
+/**
+ * Draw the emoji next to what the fonts draw when none of them has it, i.e.
+ * a missing-glyph box for every visible code point, and compare the two
+ */
+function findRenderProblem(
+  emoji: string,
+  family?: string
+): "empty" | "missing" | undefined {
+  const render = (text: string) => {
+    const canvas = createCanvas(64 * Array.from(text).length, 64);
+    const ctx = canvas.getContext("2d");
+    drawEmojiGlyph(ctx, text, canvas.width / 2, 32, 64, family);
+    return ctx.getImageData(0, 0, canvas.width, 64).data;
+  };
+
+  const pixels = render(emoji);
+  if (!pixels.some((value, i) => i % 4 === 3 && value > 0)) return "empty";
+  const missing = render(
+    Array.from(emoji, (char) =>
+      INVISIBLE_CODEPOINT.test(char) ? char : "\u{10FFFD}"
+    ).join("")
+  );
+  return pixels.every((value, i) => value === missing[i])
+    ? "missing"
+    : undefined;
+}
+
+/**
+ * Check that the input is something worth drawing: an emoji known to the
+ * dataset, or a single letter, digit or symbol. Several emoji in a row only
+ * warn. Renders that come out blank or as missing-glyph boxes throw, unless
+ * EMOJICO_ALLOW_MISSING_GLYPHS is set for the latter. Returns the warnings
+ */
+function checkEmoji(emoji: string, family?: string): string[] {
+  const known = (text: string) => findEmojiEntry(text) !== undefined;
+  const graphemes = Array.from(
+    new Intl.Segmenter(undefined, { granularity: "grapheme" }).segment(emoji),
+    ({ segment }) => segment
+  );
+  const warnings: string[] = [];
+
+  if (!emoji.trim()) {
+    throw new Error("No emoji given.");
+  }
+  const single =
+    graphemes.length === 1 &&
+    (known(emoji) || /^(?:\p{L}\p{M}*|\p{N}|\p{S})$/u.test(emoji));
+  if (!single) {
+    if (!graphemes.every(known)) {
+      throw new Error(
+        `"${emoji}" is not an emoji. Pass one emoji, its name (e.g. rocket) or its codepoint (e.g. U+1F680).`
+      );
+    }
+    const [first, second] = graphemes;
+    warnings.push(
+      `"${emoji}" is ${graphemes.length} emoji, which will be drawn side by side. Use "${first}+${second}" or "${first}/${second}" to compose two of them into one icon.`
+    );
+  }
+
+  const problem = findRenderProblem(emoji, family);
+  const fonts = family ? `the ${family} font` : "the installed fonts";
+  if (problem === "empty") {
+    throw new Error(
+      `"${emoji}" renders as nothing with ${fonts}. Try another emoji.`
+    );
+  }
+  if (problem === "missing") {
+    const message = family
+      ? `The ${family} font has no glyph for "${emoji}", so it renders as an empty box.`
+      : `No installed font has a glyph for "${emoji}", so it renders as an empty box.`;
+    const fix = family
+      ? "Pick a font that includes it"
+      : "Install a color emoji font (e.g. fonts-noto-color-emoji on Debian and Ubuntu)";
+    if (!process.env.EMOJICO_ALLOW_MISSING_GLYPHS) {
+      throw new Error(
+        `${message} ${fix}, or set EMOJICO_ALLOW_MISSING_GLYPHS=1 to generate the box anyway.`
+      );
+    }
+    warnings.push(message);
+  }
+  return warnings;
+}
+
 /**
  * Render emoji to image using Canvas
  * Uses a two-pass approach: render first, then measure the actual visual
@@ -476,19 +1482,50 @@ function interactiveAllToggle(): Promise<boolean> {
  * This fixes vertical alignment issues where font metrics don't match
  * the visual bounds of emoji glyphs.
  */
-function emojiToImageCanvas(emoji: string, size: number): Buffer {
+function emojiToImageCanvas(
+  emoji: string | EmojiComposition,
+  size: number,
+  family?: string
+): Buffer {
+  const { emoji: main, second } =
+    typeof emoji === "string" ? { emoji } : emoji;
+
   // First pass: render emoji with standard alignment
   const tempCanvas = createCanvas(size, size);
   const tempCtx = tempCanvas.getContext("2d");
 
-  // Set font with emoji support
-  const fontSize = Math.floor(size * 0.8);
-  tempCtx.font = `${fontSize}px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", "EmojiOne Color", sans-serif`;
-  tempCtx.textAlign = "center";
-  tempCtx.textBaseline = "middle";
+  if (!second) {
+    // Draw emoji centered (may not be visually centered due to font metrics)
+    drawEmojiGlyph(tempCtx, main, size / 2, size / 2, size, family);
+  } else {
+    // Center of a box of the given size tucked into a corner
+    const cornerCenter = (corner: Corner, box: number) => ({
+      x: corner.endsWith("left") ? box / 2 : size - box / 2,
+      y: corner.startsWith("top") ? box / 2 : size - box / 2,
+    });
+    const box = size * second.scale;
+    const at = cornerCenter(second.position, box);
+
+    if (second.layout === "badge") {
+      drawEmojiGlyph(tempCtx, main, size / 2, size / 2, size, family);
+      // Cut a gap around the badge so it reads as a separate shape
+      tempCtx.globalCompositeOperation = "destination-out";
+      tempCtx.beginPath();
+      tempCtx.arc(at.x, at.y, box * 0.5, 0, Math.PI * 2);
+      tempCtx.fill();
+      tempCtx.globalCompositeOperation = "source-over";
+    } else {
+      const [vertical, horizontal] = second.position.split("-");
+      const opposite = `${vertical === "top" ? "bottom" : "top"}-${
+        horizontal === "left" ? "right" : "left"
+      }` as Corner;
+      const from = cornerCenter(opposite, box);
+      drawEmojiGlyph(tempCtx, main, from.x, from.y, box, family);
+    }
+    drawEmojiGlyph(tempCtx, second.emoji, at.x, at.y, box, family);
+  }
 
-  // Draw emoji centered (may not be visually centered due to font metrics)
-  tempCtx.fillText(emoji, size / 2, size / 2);
+  // Center the bounding box of everything drawn, composed or not
 
   // Find the actual bounding box of non-transparent pixels
   const imageData = tempCtx.getImageData(0, 0, size, size);
@@ -506,14 +1543,16 @@ function emojiToImageCanvas(emoji: string, size: number): Buffer {
     }
   }
 
-  // If no visible pixels found or already centered, return as-is
   if (top > bottom || left > right) {
-    return tempCanvas.toBuffer("image/png");
+    throw new Error(
+      `Nothing was drawn for "${main}". The fonts have no visible glyph for it.`
+    );
   }
 
   const offsetX = Math.round(size / 2 - (left + right) / 2);
   const offsetY = Math.round(size / 2 - (top + bottom) / 2);
 
+  // Already centered, return as-is
   if (offsetX === 0 && offsetY === 0) {
     return tempCanvas.toBuffer("image/png");
   }
@@ -526,55 +1565,738 @@ function emojiToImageCanvas(emoji: string, size: number): Buffer {
   return canvas.toBuffer("image/png");
 }
 
+export type MaskShape = "square" | "circle" | "squircle" | "rounded" | "teardrop";
+
+/** Tile shapes available for icon backgrounds */
+export type IconShape = Exclude<MaskShape, "teardrop">;
+
+const ICON_SHAPES: IconShape[] = ["square", "circle", "rounded", "squircle"];
+
 /**
- * Resize PNG buffer to target size using Canvas API
- * Implements "fit: contain" behavior with transparent background
+ * A parsed --background value: a plain color or a CSS-style gradient
  */
-async function resizePng(
-  pngBuffer: Buffer,
-  targetSize: number
-): Promise<Buffer> {
-  const image = await loadImage(pngBuffer);
-  const canvas = createCanvas(targetSize, targetSize);
-  const ctx = canvas.getContext("2d");
+export type Background =
+  | { type: "color"; color: string }
+  | { type: "linear-gradient"; angle: number; stops: string[] }
+  | { type: "radial-gradient"; stops: string[] };
 
-  // Calculate scaling to fit (contain) - maintain aspect ratio
-  const scale = Math.min(targetSize / image.width, targetSize / image.height);
-  const width = image.width * scale;
+/**
+ * Split on commas that aren't nested inside parentheses, so color functions
+ * like rgb(0, 0, 0) survive
+ */
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of value) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Check a CSS color with the canvas color parser. Gradient stops reject
+ * colors they can't parse, unlike fillStyle which silently ignores them.
+ */
+function isValidColor(color: string): boolean {
+  const ctx = createCanvas(1, 1).getContext("2d");
+  try {
+    ctx.createLinearGradient(0, 0, 1, 1).addColorStop(0, color);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a background value. Accepts any CSS color, or
+ * linear-gradient([<angle>deg,] <color>, <color>, ...) and
+ * radial-gradient(<color>, <color>, ...)
+ */
+export function parseBackground(value: string): Background {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(linear|radial)-gradient\((.*)\)$/i);
+  if (!match) {
+    if (!trimmed || !isValidColor(trimmed)) {
+      throw new Error(`Invalid background color "${value}".`);
+    }
+    return { type: "color", color: trimmed };
+  }
+
+  const kind = match[1].toLowerCase();
+  const parts = splitTopLevel(match[2]).filter(Boolean);
+  let angle = 180; // CSS default: top to bottom
+  if (kind === "linear" && /^-?\d+(\.\d+)?deg$/.test(parts[0] ?? "")) {
+    angle = parseFloat(parts.shift()!);
+  }
+  if (parts.length < 2) {
+    throw new Error(
+      `Invalid background "${value}": a gradient needs at least two colors.`
+    );
+  }
+  const invalid = parts.find((color) => !isValidColor(color));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid background "${value}": unknown color "${invalid}".`);
+  }
+
+  return kind === "linear"
+    ? { type: "linear-gradient", angle, stops: parts }
+    : { type: "radial-gradient", stops: parts };
+}
+
+/**
+ * Create a canvas fill style for a background covering the given rectangle
+ */
+function createBackgroundFill(
+  ctx: SKRSContext2D,
+  background: Background,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  if (background.type === "color") {
+    return background.color;
+  }
+
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  let gradient;
+  if (background.type === "linear-gradient") {
+    // Same geometry as CSS: the gradient line passes through the center and
+    // is long enough for the corners to hit the first and last stops
+    const rad = (background.angle * Math.PI) / 180;
+    const dx = Math.sin(rad);
+    const dy = -Math.cos(rad);
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+    gradient = ctx.createLinearGradient(
+      cx - dx * half,
+      cy - dy * half,
+      cx + dx * half,
+      cy + dy * half
+    );
+  } else {
+    gradient = ctx.createRadialGradient(
+      cx,
+      cy,
+      0,
+      cx,
+      cy,
+      Math.hypot(width, height) / 2
+    );
+  }
+
+  const { stops } = background;
+  stops.forEach((color, i) => {
+    gradient.addColorStop(i / (stops.length - 1), color);
+  });
+  return gradient;
+}
+
+export interface IconAppearance {
+  background?: Background;
+  shape?: IconShape;
+  /** CSS font family for the emoji (default: EMOJI_FONT_FAMILY) */
+  emojiFont?: string;
+}
+
+// How large the emoji render is drawn on a background tile, leaving a margin
+// so the glyph stays clear of the tile edges
+const TILE_EMOJI_SCALE = 0.75;
+
+/**
+ * Trace a mask shape filling the square at (x, y) with the given size.
+ * Only builds the path; callers decide whether to fill or clip with it.
+ */
+function traceShapePath(
+  ctx: SKRSContext2D,
+  shape: MaskShape,
+  x: number,
+  y: number,
+  size: number
+) {
+  const r = size / 2;
+  const cx = x + r;
+  const cy = y + r;
+
+  ctx.beginPath();
+  switch (shape) {
+    case "square":
+      ctx.rect(x, y, size, size);
+      break;
+    case "circle":
+      ctx.arc(cx, cy, r, 0, Math.PI * 2);
+      break;
+    case "squircle": {
+      // Superellipse |x|^n + |y|^n = r^n, close to the iOS/Android squircle
+      const n = 5;
+      const steps = 128;
+      for (let i = 0; i < steps; i++) {
+        const t = (i / steps) * Math.PI * 2;
+        const cos = Math.cos(t);
+        const sin = Math.sin(t);
+        const px = cx + r * Math.sign(cos) * Math.pow(Math.abs(cos), 2 / n);
+        const py = cy + r * Math.sign(sin) * Math.pow(Math.abs(sin), 2 / n);
+        if (i === 0) ctx.moveTo(px, py);
+        else ctx.lineTo(px, py);
+      }
+      ctx.closePath();
+      break;
+    }
+    case "rounded":
+      ctx.roundRect(x, y, size, size, size * 0.2);
+      break;
+    case "teardrop":
+      // Fully rounded except for a tighter bottom-right corner
+      ctx.roundRect(x, y, size, size, [r, r, size * 0.15, r]);
+      break;
+  }
+}
+
+/**
+ * Resize PNG buffer to target size using Canvas API
+ * Implements "fit: contain" behavior with transparent background. With a
+ * background, the shape is traced at the target size so its edges are
+ * antialiased there rather than blurred by downscaling.
+ */
+async function resizePng(
+  pngBuffer: Buffer,
+  targetSize: number,
+  appearance: IconAppearance = {}
+): Promise<Buffer> {
+  const image = await loadImage(pngBuffer);
+  const canvas = createCanvas(targetSize, targetSize);
+  const ctx = canvas.getContext("2d");
+
+  // Calculate scaling to fit (contain) - maintain aspect ratio
+  let scale = Math.min(targetSize / image.width, targetSize / image.height);
+
+  if (appearance.background) {
+    traceShapePath(ctx, appearance.shape ?? "square", 0, 0, targetSize);
+    ctx.fillStyle = createBackgroundFill(
+      ctx,
+      appearance.background,
+      0,
+      0,
+      targetSize,
+      targetSize
+    );
+    ctx.fill();
+    scale *= TILE_EMOJI_SCALE;
+  }
+
+  const width = image.width * scale;
   const height = image.height * scale;
   const x = (targetSize - width) / 2;
   const y = (targetSize - height) / 2;
 
-  // Draw scaled image centered on transparent background
+  // Draw scaled image centered on the (possibly transparent) background
   ctx.drawImage(image, x, y, width, height);
   return canvas.toBuffer("image/png");
 }
 
+export type OgLayout = "emoji-only" | "emoji-left" | "emoji-above";
+
+const OG_LAYOUTS: OgLayout[] = ["emoji-only", "emoji-left", "emoji-above"];
+
+export interface OgImageOptions {
+  /** Site title, drawn next to or below the emoji */
+  title?: string;
+  /** Tagline drawn under the title */
+  subtitle?: string;
+  /**
+   * Card background, same syntax as GenerateOptions.background
+   * (default: the icon background, or white)
+   */
+  background?: string;
+  /**
+   * Where the emoji goes relative to the text (default: emoji-left when there
+   * is text, emoji-only otherwise)
+   */
+  layout?: OgLayout;
+  /** Path to a .ttf/.otf/.woff2 font file for the title and subtitle */
+  font?: string;
+  /** Text color (default: near-black or white, whichever contrasts) */
+  textColor?: string;
+}
+
+export type SocialCardName = "og" | "twitter" | "linkedin" | "square";
+
+interface SocialCard {
+  path: string;
+  width: number;
+  height: number;
+}
+
+// Named card sizes; "og" is the classic 1.91:1 og:image
+const SOCIAL_CARDS: Record<SocialCardName, SocialCard> = {
+  og: { path: "og-image.png", width: 1200, height: 630 },
+  twitter: { path: "twitter-image.png", width: 1200, height: 600 },
+  linkedin: { path: "linkedin-image.png", width: 1200, height: 627 },
+  square: { path: "og-image-square.png", width: 1200, height: 1200 },
+};
+
+const SOCIAL_CARD_NAMES = Object.keys(SOCIAL_CARDS) as SocialCardName[];
+
+// Default stack for card and badge text when no font file is given. The
+// emoji font is only used for emoji, since most have no letters
+const OG_FONT_FAMILY =
+  '"Helvetica Neue", Helvetica, Arial, "DejaVu Sans", sans-serif';
+
+// Family each font file was registered under, by resolved path, since the
+// canvas keeps fonts for the life of the process
+const registeredFonts = new Map<string, string>();
+
+/**
+ * Register a font file with the canvas, once per path, and return the family
+ * name to use. Files that want the same alias get a numbered one
+ */
+function registerFontFile(fontPath: string, alias: string): string {
+  const resolved = path.resolve(fontPath);
+  const known = registeredFonts.get(resolved);
+  if (known) return known;
+
+  let data: Buffer;
+  try {
+    data = fs.readFileSync(resolved);
+  } catch {
+    throw new Error(`Font file not found: ${fontPath}`);
+  }
+  const taken = new Set(registeredFonts.values());
+  let family = alias;
+  for (let n = 2; taken.has(family); n++) family = `${alias} ${n}`;
+  if (!GlobalFonts.register(data, family)) {
+    throw new Error(`Could not load font file: ${fontPath}`);
+  }
+  registeredFonts.set(resolved, family);
+  return family;
+}
+
+/**
+ * Pick near-black or white text, whichever contrasts better with the
+ * background's average color
+ */
+function getContrastingTextColor(background: Background): string {
+  const canvas = createCanvas(16, 16);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = createBackgroundFill(ctx, background, 0, 0, 16, 16);
+  ctx.fillRect(0, 0, 16, 16);
+  const { data } = ctx.getImageData(0, 0, 16, 16);
+
+  let luminance = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    luminance += 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+  }
+  luminance /= data.length / 4;
+  return luminance > 140 ? "#111111" : "#ffffff";
+}
+
+/**
+ * Break text into lines no wider than maxWidth at the context's current
+ * font. Words that don't fit on a line of their own are split by character.
+ */
+function wrapText(
+  ctx: SKRSContext2D,
+  text: string,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = "";
+    for (const char of Array.from(word)) {
+      if (line && ctx.measureText(line + char).width > maxWidth) {
+        lines.push(line);
+        line = "";
+      }
+      line += char;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines;
+}
+
+interface TextBlock {
+  text: string;
+  fontSize: number;
+  weight: string;
+  maxLines: number;
+  lineHeight: number;
+  lines: string[];
+}
+
+/**
+ * Shrink the title and subtitle together until both fit the box, wrapping
+ * each to its line limit. At the minimum size, overflowing lines are cut
+ * off with an ellipsis.
+ */
+function fitTextBlocks(
+  ctx: SKRSContext2D,
+  blocks: Array<Omit<TextBlock, "lines">>,
+  family: string,
+  maxWidth: number,
+  maxHeight: number,
+  gap: number
+): TextBlock[] {
+  const MIN_SCALE = 0.4;
+  let fitted: TextBlock[] = [];
+
+  for (let scale = 1; scale >= MIN_SCALE; scale -= 0.05) {
+    fitted = blocks.map((block) => {
+      const fontSize = Math.round(block.fontSize * scale);
+      ctx.font = `${block.weight} ${fontSize}px ${family}`;
+      return { ...block, fontSize, lines: wrapText(ctx, block.text, maxWidth) };
+    });
+
+    const height = measureTextBlocks(fitted, gap);
+    const linesFit = fitted.every(
+      (block) => block.lines.length <= block.maxLines
+    );
+    if (height <= maxHeight && linesFit) {
+      return fitted;
+    }
+  }
+
+  // Still too long at the smallest size: truncate with an ellipsis
+  return fitted.map((block) => {
+    if (block.lines.length <= block.maxLines) return block;
+    ctx.font = `${block.weight} ${block.fontSize}px ${family}`;
+    const lines = block.lines.slice(0, block.maxLines);
+    let last = lines[lines.length - 1];
+    while (last && ctx.measureText(`${last}…`).width > maxWidth) {
+      last = last.slice(0, -1);
+    }
+    lines[lines.length - 1] = `${last.trimEnd()}…`;
+    return { ...block, lines };
+  });
+}
+
+function measureTextBlocks(blocks: TextBlock[], gap: number): number {
+  const heights = blocks.map(
+    (block) => block.lines.length * block.fontSize * block.lineHeight
+  );
+  return heights.reduce((sum, h) => sum + h, 0) + gap * (blocks.length - 1);
+}
+
+// Space between the emoji and the text beneath it in the emoji-above layout
+const EMOJI_TEXT_GAP = 32;
+
+/**
+ * Render a social card (og:image and friends) with the emoji on a background,
+ * optionally alongside a title and subtitle. Text is wrapped and shrunk to
+ * fit the space the layout leaves for it.
+ */
+async function generateSocialCard(
+  emoji: string | EmojiComposition,
+  size: { width: number; height: number },
+  options: OgImageOptions = {},
+  background: Background = { type: "color", color: "#FFFFFF" },
+  emojiFont?: string
+): Promise<Buffer> {
+  const { width, height } = size;
+  const PADDING = 80;
+  const texts = [
+    options.title && {
+      text: options.title,
+      fontSize: 88,
+      weight: "bold",
+      maxLines: 3,
+      lineHeight: 1.15,
+    },
+    options.subtitle && {
+      text: options.subtitle,
+      fontSize: 44,
+      weight: "normal",
+      maxLines: 3,
+      lineHeight: 1.3,
+    },
+  ].filter((block): block is Omit<TextBlock, "lines"> => Boolean(block));
+
+  // Text goes beside the emoji on wide cards and below it on tall ones
+  const layout =
+    options.layout ??
+    (texts.length === 0
+      ? "emoji-only"
+      : width / height >= 1.5
+        ? "emoji-left"
+        : "emoji-above");
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+
+  ctx.fillStyle = createBackgroundFill(ctx, background, 0, 0, width, height);
+  ctx.fillRect(0, 0, width, height);
+
+  // Emoji box and the area left over for text, per layout
+  let emojiSize: number;
+  let emojiX: number;
+  let emojiY: number;
+  let textBox = { x: 0, y: 0, width: 0, height: 0 };
+  let textAlign: "left" | "center" = "left";
+
+  if (layout === "emoji-left") {
+    emojiSize = Math.min(400, height - PADDING * 2);
+    emojiX = PADDING;
+    emojiY = (height - emojiSize) / 2;
+    const textX = emojiX + emojiSize + 56;
+    textBox = {
+      x: textX,
+      y: PADDING,
+      width: width - PADDING - textX,
+      height: height - PADDING * 2,
+    };
+  } else if (layout === "emoji-above" && texts.length > 0) {
+    emojiSize = Math.round(Math.min(width, height) * 0.41);
+    emojiX = (width - emojiSize) / 2;
+    emojiY = PADDING - 20;
+    const textY = emojiY + emojiSize + EMOJI_TEXT_GAP;
+    textBox = {
+      x: PADDING,
+      y: textY,
+      width: width - PADDING * 2,
+      height: height - PADDING + 20 - textY,
+    };
+    textAlign = "center";
+  } else {
+    // Larger emoji size for better visibility
+    emojiSize = Math.min(width, height) - 30;
+    emojiX = (width - emojiSize) / 2;
+    emojiY = (height - emojiSize) / 2;
+  }
+
+  const hasText = layout !== "emoji-only" && texts.length > 0;
+  const family =
+    hasText && options.font
+      ? `"${registerFontFile(options.font, "emojico-og")}"`
+      : OG_FONT_FAMILY;
+  const GAP = 20;
+  const blocks = hasText
+    ? fitTextBlocks(ctx, texts, family, textBox.width, textBox.height, GAP)
+    : [];
+  const textHeight = measureTextBlocks(blocks, GAP);
+
+  // Vertically center the text block within its box. When stacked, center
+  // the emoji and text together so tall cards don't leave a gap between them
+  let y = textBox.y + (textBox.height - textHeight) / 2;
+  if (layout === "emoji-above" && hasText) {
+    emojiY = (height - (emojiSize + EMOJI_TEXT_GAP + textHeight)) / 2;
+    y = emojiY + emojiSize + EMOJI_TEXT_GAP;
+  }
+
+  // Render emoji at the size it is drawn
+  const emojiImage = await loadImage(
+    emojiToImageCanvas(emoji, emojiSize, emojiFont)
+  );
+  ctx.drawImage(emojiImage, emojiX, emojiY, emojiSize, emojiSize);
+
+  ctx.fillStyle = options.textColor ?? getContrastingTextColor(background);
+  ctx.textAlign = textAlign;
+  ctx.textBaseline = "top";
+  const textX =
+    textAlign === "center" ? textBox.x + textBox.width / 2 : textBox.x;
+  for (const block of blocks) {
+    ctx.font = `${block.weight} ${block.fontSize}px ${family}`;
+    for (const line of block.lines) {
+      ctx.fillText(line, textX, y);
+      y += block.fontSize * block.lineHeight;
+    }
+    y += GAP;
+  }
+
+  return canvas.toBuffer("image/png");
+}
+
+export interface IconOverlay {
+  /** Short text badge along the bottom edge, up to 4 characters, e.g. "DEV" */
+  badge?: string;
+  /** Badge color (default: #e11d48); the text is black or white to contrast */
+  badgeColor?: string;
+  /** Color of a dot in the bottom-right corner */
+  dot?: string;
+  /** Rotate the icon's hues by this many degrees */
+  hue?: number;
+  /** Drain the icon's color */
+  grayscale?: boolean;
+}
+
+const BADGE_COLOR = "#e11d48";
+const MAX_BADGE_LENGTH = 4;
+
+// Overlays for the usual environment names; other names get a red badge
+const DEFAULT_VARIANTS: Record<string, IconOverlay> = {
+  local: { badge: "LOC", badgeColor: "#2563eb" },
+  dev: { badge: "DEV", badgeColor: "#16a34a" },
+  test: { badge: "TEST", badgeColor: "#7c3aed" },
+  preview: { badge: "PRE", badgeColor: "#0891b2" },
+  staging: { badge: "STG", badgeColor: "#d97706" },
+};
+
+/**
+ * Overlays for a list of variant names, e.g. ["dev", "staging"]
+ */
+export function resolveVariants(names: string[]): Record<string, IconOverlay> {
+  return Object.fromEntries(
+    names.map((name) => [
+      name,
+      DEFAULT_VARIANTS[name] ?? {
+        badge: name.slice(0, MAX_BADGE_LENGTH).toUpperCase(),
+      },
+    ])
+  );
+}
+
+function validateOverlay(overlay: IconOverlay, label = "overlay"): void {
+  const { badge, badgeColor, dot, hue } = overlay;
+  if (badge !== undefined && (!badge || badge.length > MAX_BADGE_LENGTH)) {
+    throw new Error(
+      `Invalid ${label} badge "${badge}". Use 1 to ${MAX_BADGE_LENGTH} characters.`
+    );
+  }
+  for (const color of [badgeColor, dot]) {
+    if (color !== undefined && !isValidColor(color)) {
+      throw new Error(`Invalid ${label} color "${color}".`);
+    }
+  }
+  if (hue !== undefined && !Number.isFinite(hue)) {
+    throw new Error(`Invalid ${label} hue "${hue}". Expected degrees.`);
+  }
+}
+
 /**
- * Generate Open Graph image (1200x630) with emoji centered on white background
- * The emoji is rendered at a larger size (600px) for better visibility
+ * Where the dot and badge sit on an icon of the given size
  */
-async function generateOgImage(emoji: string): Promise<Buffer> {
-  const OG_WIDTH = 1200;
-  const OG_HEIGHT = 630;
-  const EMOJI_SIZE = 600; // Larger emoji size for better visibility
+function overlayGeometry(size: number) {
+  const dotRadius = size * 0.2;
+  const badgeHeight = size * 0.42;
+  return {
+    dot: {
+      cx: size - dotRadius - size * 0.02,
+      cy: size - dotRadius - size * 0.02,
+      r: dotRadius,
+      // White ring separating the dot from the emoji
+      ring: size * 0.06,
+    },
+    badge: {
+      x: 0,
+      y: size - badgeHeight,
+      width: size,
+      height: badgeHeight,
+      radius: badgeHeight * 0.25,
+    },
+  };
+}
 
-  // Render emoji at high resolution
-  const emojiBuffer = emojiToImageCanvas(emoji, EMOJI_SIZE);
-  const emojiImage = await loadImage(emojiBuffer);
+/**
+ * Color matrix rows for a tint, as in CSS hue-rotate() and grayscale()
+ */
+function tintMatrix(overlay: IconOverlay): number[][] | undefined {
+  if (overlay.grayscale) {
+    const luma = [0.2126, 0.7152, 0.0722];
+    return [luma, luma, luma];
+  }
+  if (!overlay.hue) return undefined;
+  const rad = (overlay.hue * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [
+    [
+      0.213 + cos * 0.787 - sin * 0.213,
+      0.715 - cos * 0.715 - sin * 0.715,
+      0.072 - cos * 0.072 + sin * 0.928,
+    ],
+    [
+      0.213 - cos * 0.213 + sin * 0.143,
+      0.715 + cos * 0.285 + sin * 0.14,
+      0.072 - cos * 0.072 - sin * 0.283,
+    ],
+    [
+      0.213 - cos * 0.213 - sin * 0.787,
+      0.715 - cos * 0.715 + sin * 0.715,
+      0.072 + cos * 0.928 + sin * 0.072,
+    ],
+  ];
+}
 
-  // Create canvas with white background
-  const canvas = createCanvas(OG_WIDTH, OG_HEIGHT);
+/**
+ * Tint a finished icon and draw its badge or corner dot at the icon's own
+ * size, so they stay crisp down to 16x16
+ */
+async function applyOverlay(
+  pngBuffer: Buffer,
+  overlay: IconOverlay
+): Promise<Buffer> {
+  const image = await loadImage(pngBuffer);
+  const size = image.width;
+  const canvas = createCanvas(size, size);
   const ctx = canvas.getContext("2d");
+  ctx.drawImage(image, 0, 0);
+
+  const matrix = tintMatrix(overlay);
+  if (matrix) {
+    const data = ctx.getImageData(0, 0, size, size);
+    const pixels = data.data;
+    for (let i = 0; i < pixels.length; i += 4) {
+      const rgb = [pixels[i], pixels[i + 1], pixels[i + 2]];
+      for (let c = 0; c < 3; c++) {
+        const [r, g, b] = matrix[c];
+        pixels[i + c] = Math.round(r * rgb[0] + g * rgb[1] + b * rgb[2]);
+      }
+    }
+    ctx.putImageData(data, 0, 0);
+  }
 
-  // Fill with white background
-  ctx.fillStyle = "#FFFFFF";
-  ctx.fillRect(0, 0, OG_WIDTH, OG_HEIGHT);
+  const { dot, badge } = overlayGeometry(size);
+  if (overlay.dot) {
+    ctx.beginPath();
+    ctx.arc(dot.cx, dot.cy, dot.r, 0, Math.PI * 2);
+    ctx.fillStyle = overlay.dot;
+    ctx.fill();
+    ctx.lineWidth = dot.ring;
+    ctx.strokeStyle = "#ffffff";
+    ctx.stroke();
+  }
+
+  if (overlay.badge) {
+    const color = overlay.badgeColor ?? BADGE_COLOR;
+    ctx.beginPath();
+    ctx.roundRect(badge.x, badge.y, badge.width, badge.height, badge.radius);
+    ctx.fillStyle = color;
+    ctx.fill();
 
-  // Center the emoji
-  const x = (OG_WIDTH - EMOJI_SIZE) / 2;
-  const y = (OG_HEIGHT - EMOJI_SIZE) / 2;
-  ctx.drawImage(emojiImage, x, y, EMOJI_SIZE, EMOJI_SIZE);
+    // Largest bold font that fits the badge with a little side padding
+    let fontSize = badge.height * 0.78;
+    ctx.font = `bold ${fontSize}px ${OG_FONT_FAMILY}`;
+    const textWidth = ctx.measureText(overlay.badge).width;
+    const maxWidth = badge.width * 0.9;
+    if (textWidth > maxWidth) {
+      fontSize *= maxWidth / textWidth;
+      ctx.font = `bold ${fontSize}px ${OG_FONT_FAMILY}`;
+    }
+    ctx.fillStyle = getContrastingTextColor({ type: "color", color });
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(
+      overlay.badge,
+      badge.x + badge.width / 2,
+      badge.y + badge.height / 2
+    );
+  }
 
   return canvas.toBuffer("image/png");
 }
@@ -584,19 +2306,30 @@ async function generateOgImage(emoji: string): Promise<Buffer> {
  * This is the fastest approach - one render, multiple fast resizes
  */
 async function generateAllSizesOptimized(
-  emoji: string
-): Promise<Map<number, Buffer>> {
+  emoji: string | EmojiComposition,
+  appearance: IconAppearance = {},
+  extraSizes: number[] = []
+): Promise<{ highResBuffer: Buffer; sizeMap: Map<number, Buffer> }> {
   // Render once at high resolution (512x512 for best quality)
-  const HIGH_RES_SIZE = 512;
-  const highResBuffer = emojiToImageCanvas(emoji, HIGH_RES_SIZE);
+  const highResBuffer = emojiToImageCanvas(
+    emoji,
+    HIGH_RES_SIZE,
+    appearance.emojiFont
+  );
 
   // Get all sizes we need
-  const allSizes = [...SIZES.favicon, ...SIZES.apple];
+  const allSizes = [
+    ...new Set([
+      ...SIZES.favicon,
+      ...SIZES.android,
+      ...extraSizes,
+    ]),
+  ];
 
   // Resize to all sizes using Canvas API
   const buffers = await Promise.all(
     allSizes.map(async (size) => {
-      const buffer = await resizePng(highResBuffer, size);
+      const buffer = await resizePng(highResBuffer, size, appearance);
       return { size, buffer };
     })
   );
@@ -607,7 +2340,120 @@ async function generateAllSizesOptimized(
     sizeMap.set(size, buffer);
   });
 
-  return sizeMap;
+  // Keep the original render around for targets that compose their own layout
+  return { highResBuffer, sizeMap };
+}
+
+// Mask shapes shown in the maskable preview, in order
+const PREVIEW_MASKS: MaskShape[] = ["circle", "squircle", "rounded", "teardrop"];
+
+// Maskable icons must keep their content inside a centered circle whose
+// diameter is 80% of the icon size
+const MASKABLE_SAFE_ZONE = 0.8;
+
+// Default inset of Apple touch icon content, per side
+const APPLE_PADDING = 0.1;
+
+/**
+ * Find how far the furthest visible pixel lies from the center of a square
+ * PNG, as a fraction of the image size
+ */
+async function getContentRadius(pngBuffer: Buffer): Promise<number> {
+  const { width, height, data } = await parsePng(pngBuffer);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  let maxDistSq = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        const distSq = (x - cx) ** 2 + (y - cy) ** 2;
+        if (distSq > maxDistSq) maxDistSq = distSq;
+      }
+    }
+  }
+  return Math.sqrt(maxDistSq) / width;
+}
+
+/**
+ * Draw the emoji render centered on an opaque square, scaled to the given
+ * fraction of the icon size. Used for targets where the platform applies its
+ * own mask and would otherwise fill transparent areas itself
+ */
+async function flattenOnBackground(
+  highResBuffer: Buffer,
+  size: number,
+  background: Background,
+  scale: number
+): Promise<Buffer> {
+  const image = await loadImage(highResBuffer);
+  const canvas = createCanvas(size, size);
+  const ctx = canvas.getContext("2d");
+
+  ctx.fillStyle = createBackgroundFill(ctx, background, 0, 0, size, size);
+  ctx.fillRect(0, 0, size, size);
+
+  const drawSize = size * scale;
+  const offset = (size - drawSize) / 2;
+  ctx.drawImage(image, offset, offset, drawSize, drawSize);
+
+  return canvas.toBuffer("image/png");
+}
+
+/**
+ * Generate a maskable icon: the emoji on a solid background, scaled so every
+ * visible pixel sits inside the safe zone no matter which mask the platform
+ * applies
+ */
+async function generateMaskableIcon(
+  highResBuffer: Buffer,
+  size: number,
+  background: Background
+): Promise<Buffer> {
+  // Shrink the render so its furthest pixel lands on the safe zone circle
+  const radius = await getContentRadius(highResBuffer);
+  const maxRadius = MASKABLE_SAFE_ZONE / 2;
+  const scale = radius > maxRadius ? maxRadius / radius : 1;
+  return flattenOnBackground(highResBuffer, size, background, scale);
+}
+
+/**
+ * Generate an Apple touch icon. iOS fills transparency with black and rounds
+ * the corners itself, so the icon is an opaque square with the emoji inset by
+ * the padding (a fraction of the size, per side)
+ */
+async function generateAppleTouchIcon(
+  highResBuffer: Buffer,
+  size: number,
+  background: Background,
+  padding: number
+): Promise<Buffer> {
+  return flattenOnBackground(highResBuffer, size, background, 1 - padding * 2);
+}
+
+/**
+ * Render a maskable icon through each of the common platform masks, side by
+ * side, so the crop can be checked before shipping
+ */
+async function generateMaskPreview(maskableBuffer: Buffer): Promise<Buffer> {
+  const TILE_SIZE = 192;
+  const GAP = 24;
+  const image = await loadImage(maskableBuffer);
+  const width = PREVIEW_MASKS.length * (TILE_SIZE + GAP) + GAP;
+  const height = TILE_SIZE + GAP * 2;
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+
+  PREVIEW_MASKS.forEach((shape, i) => {
+    const x = GAP + i * (TILE_SIZE + GAP);
+    ctx.save();
+    traceShapePath(ctx, shape, x, GAP, TILE_SIZE);
+    ctx.clip();
+    ctx.drawImage(image, x, GAP, TILE_SIZE, TILE_SIZE);
+    ctx.restore();
+  });
+
+  return canvas.toBuffer("image/png");
 }
 
 /**
@@ -726,17 +2572,75 @@ export function convertRgbaToBgr(
   return buf;
 }
 
+/**
+ * Create the 1-bit AND mask that follows the pixel data in ICO bitmaps
+ * Bits are set for fully transparent pixels; rows are bottom-up and padded
+ * to 32-bit boundaries
+ */
+export function createAndMask(
+  rgbaData: Buffer,
+  width: number,
+  height: number,
+  bpp: number
+): Buffer {
+  const rowSize = Math.ceil(width / 32) * 4;
+  const buf = Buffer.alloc(rowSize * height);
+
+  for (let y = 0; y < height; y++) {
+    const dstRow = (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const alpha = rgbaData[(y * width + x) * bpp + 3];
+      if (alpha === 0) {
+        buf[dstRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  return buf;
+}
+
+export interface IcoOptions {
+  /**
+   * Images at least this wide are stored as PNG (the Vista+ format) instead of
+   * an uncompressed bitmap, which keeps large sizes small (default: 64)
+   */
+  pngMinSize?: number;
+}
+
 /**
  * Generate ICO file from array of PNG buffers
  * Based on to-ico implementation but using pngjs for PNG parsing
  */
-export async function generateIco(pngBuffers: Buffer[]): Promise<Buffer> {
+export async function generateIco(
+  pngBuffers: Buffer[],
+  options: IcoOptions = {}
+): Promise<Buffer> {
+  const { pngMinSize = 64 } = options;
+
   // Parse all PNG buffers
   const images = await Promise.all(pngBuffers.map(parsePng));
 
-  // Create header
-  const header = createIcoHeader(images.length);
-  const parts: Buffer[] = [header];
+  // Encode each image's payload: the PNG as-is for large sizes, otherwise
+  // a BITMAPINFOHEADER followed by bottom-up BGRA pixel data and the AND mask
+  // that the doubled bitmap height promises
+  const payloads = images.map((img, i) => {
+    if (img.width >= pngMinSize) {
+      return [pngBuffers[i]];
+    }
+    const bgrData = convertRgbaToBgr(img.data, img.width, img.height, img.bpp);
+    const andMask = createAndMask(img.data, img.width, img.height, img.bpp);
+    const bitmapHeader = createBitmapInfoHeader(
+      img.width,
+      img.height,
+      img.bpp,
+      bgrData.length + andMask.length
+    );
+    return [bitmapHeader, bgrData, andMask];
+  });
+
+  // Create header
+  const header = createIcoHeader(images.length);
+  const parts: Buffer[] = [header];
 
   // Calculate offsets
   let offset =
@@ -745,140 +2649,2209 @@ export async function generateIco(pngBuffers: Buffer[]): Promise<Buffer> {
 
   // Create directory entries
   const directories: Buffer[] = [];
-  for (const img of images) {
-    const bitmapSize = 40 + img.data.length; // BITMAPINFOHEADER + pixel data
+  images.forEach((img, i) => {
+    const payloadSize = payloads[i].reduce((sum, buf) => sum + buf.length, 0);
     const dir = createIcoDirectory(
       img.width,
       img.height,
       img.bpp,
-      bitmapSize,
+      payloadSize,
       offset
     );
     directories.push(dir);
-    offset += bitmapSize;
-  }
+    offset += payloadSize;
+  });
 
   parts.push(...directories);
 
-  // Create bitmap data for each image
-  for (const img of images) {
-    const bitmapHeader = createBitmapInfoHeader(
-      img.width,
-      img.height,
-      img.bpp,
-      img.data.length
-    );
-    const bgrData = convertRgbaToBgr(img.data, img.width, img.height, img.bpp);
-    parts.push(bitmapHeader, bgrData);
+  // Append image data in directory order
+  for (const payload of payloads) {
+    parts.push(...payload);
   }
 
   // Concatenate all parts
   return Buffer.concat(parts);
 }
 
-async function generateFavicons(
+export interface IcoEntry {
+  /** Position in the directory */
+  index: number;
+  /** Dimensions from the directory entry (0 already mapped to 256) */
+  width: number;
+  height: number;
+  /** Bits per pixel: from the bitmap header for BMP, the directory for PNG */
+  bitCount: number;
+  /** Payload size and offset as declared in the directory */
+  size: number;
+  offset: number;
+  format: "bmp" | "png";
+  /** Whether a complete AND mask follows the pixel data (BMP only) */
+  hasMask: boolean;
+}
+
+export interface IcoValidationResult {
+  valid: boolean;
+  errors: string[];
+  entries: IcoEntry[];
+}
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+/**
+ * Check an ICO file's structure: header, directory entries, payload bounds
+ * and overlaps, and that each bitmap or PNG payload matches its entry,
+ * including the AND mask that bitmap entries must carry
+ */
+export function validateIco(ico: Buffer): IcoValidationResult {
+  const errors: string[] = [];
+  const entries: IcoEntry[] = [];
+
+  if (ico.length < 6) {
+    errors.push("File is too short for an ICO header.");
+    return { valid: false, errors, entries };
+  }
+  if (ico.readUInt16LE(0) !== 0 || ico.readUInt16LE(2) !== 1) {
+    errors.push("Not an ICO file (bad header).");
+    return { valid: false, errors, entries };
+  }
+
+  const count = ico.readUInt16LE(4);
+  if (count === 0) {
+    errors.push("ICO contains no images.");
+  }
+  if (ico.length < 6 + 16 * count) {
+    errors.push(`Directory for ${count} images runs past the end of the file.`);
+    return { valid: false, errors, entries };
+  }
+
+  for (let index = 0; index < count; index++) {
+    const dir = 6 + index * 16;
+    const width = ico.readUInt8(dir) || 256;
+    const height = ico.readUInt8(dir + 1) || 256;
+    const size = ico.readUInt32LE(dir + 8);
+    const offset = ico.readUInt32LE(dir + 12);
+    const label = `Entry ${index} (${width}x${height})`;
+
+    const entry: IcoEntry = {
+      index,
+      width,
+      height,
+      bitCount: ico.readUInt16LE(dir + 6),
+      size,
+      offset,
+      format: "bmp",
+      hasMask: false,
+    };
+    entries.push(entry);
+
+    if (offset < 6 + 16 * count || offset + size > ico.length) {
+      errors.push(`${label}: data at ${offset}+${size} is outside the file.`);
+      continue;
+    }
+    const payload = ico.subarray(offset, offset + size);
+
+    if (payload.subarray(0, 8).equals(PNG_SIGNATURE)) {
+      entry.format = "png";
+      if (payload.length < 24 || payload.toString("latin1", 12, 16) !== "IHDR") {
+        errors.push(`${label}: PNG data is truncated.`);
+        continue;
+      }
+      const pngWidth = payload.readUInt32BE(16);
+      const pngHeight = payload.readUInt32BE(20);
+      if (pngWidth !== width || pngHeight !== height) {
+        errors.push(
+          `${label}: PNG is ${pngWidth}x${pngHeight}, directory says ${width}x${height}.`
+        );
+      }
+      continue;
+    }
+
+    if (payload.length < 40 || payload.readUInt32LE(0) !== 40) {
+      errors.push(`${label}: missing BITMAPINFOHEADER.`);
+      continue;
+    }
+    const bmpWidth = payload.readInt32LE(4);
+    const bmpHeight = payload.readInt32LE(8);
+    const bitCount = payload.readUInt16LE(14);
+    entry.bitCount = bitCount;
+    if (bmpWidth !== width || bmpHeight !== height * 2) {
+      errors.push(
+        `${label}: bitmap header is ${bmpWidth}x${bmpHeight}, expected ${width}x${height * 2}.`
+      );
+      continue;
+    }
+
+    // Palette (for <= 8 bpp), then XOR pixel rows, then AND mask rows, each
+    // row padded to 32 bits
+    const paletteSize =
+      bitCount <= 8 ? (payload.readUInt32LE(32) || 1 << bitCount) * 4 : 0;
+    const xorSize = Math.ceil((width * bitCount) / 32) * 4 * height;
+    const maskSize = Math.ceil(width / 32) * 4 * height;
+    const pixelsEnd = 40 + paletteSize + xorSize;
+
+    if (payload.length < pixelsEnd) {
+      errors.push(`${label}: pixel data is truncated.`);
+    } else if (payload.length < pixelsEnd + maskSize) {
+      errors.push(
+        `${label}: AND mask is missing or truncated (${payload.length - pixelsEnd} of ${maskSize} bytes).`
+      );
+    } else {
+      entry.hasMask = true;
+    }
+  }
+
+  // Payloads must not overlap each other
+  const ranges = entries
+    .filter((e) => e.offset + e.size <= ico.length)
+    .sort((a, b) => a.offset - b.offset);
+  for (let i = 1; i < ranges.length; i++) {
+    const prev = ranges[i - 1];
+    if (prev.offset + prev.size > ranges[i].offset) {
+      errors.push(`Entries ${prev.index} and ${ranges[i].index} overlap.`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors, entries };
+}
+
+/**
+ * Decode one ICO entry back to a PNG buffer
+ * PNG entries are returned as-is; bitmaps (1, 4, 8, 24 or 32 bpp) are
+ * converted to RGBA, taking transparency from the alpha channel when it has
+ * one and from the AND mask otherwise
+ */
+export function decodeIcoEntry(ico: Buffer, entry: IcoEntry): Buffer {
+  const payload = ico.subarray(entry.offset, entry.offset + entry.size);
+  if (entry.format === "png") {
+    return Buffer.from(payload);
+  }
+
+  const width = payload.readInt32LE(4);
+  const height = payload.readInt32LE(8) / 2;
+  const bitCount = payload.readUInt16LE(14);
+  if (![1, 4, 8, 24, 32].includes(bitCount)) {
+    throw new Error(`Unsupported bitmap depth: ${bitCount} bpp.`);
+  }
+
+  const paletteCount =
+    bitCount <= 8 ? payload.readUInt32LE(32) || 1 << bitCount : 0;
+  const paletteStart = 40;
+  const xorStart = paletteStart + paletteCount * 4;
+  const xorRowSize = Math.ceil((width * bitCount) / 32) * 4;
+  const maskStart = xorStart + xorRowSize * height;
+  const maskRowSize = Math.ceil(width / 32) * 4;
+
+  const png = new PNG({ width, height });
+  let hasAlpha = false;
+
+  for (let y = 0; y < height; y++) {
+    // Bitmap rows are stored bottom-up
+    const row = xorStart + (height - 1 - y) * xorRowSize;
+    for (let x = 0; x < width; x++) {
+      const dst = (y * width + x) * 4;
+      let b: number, g: number, r: number;
+      let a = 255;
+      if (bitCount === 32) {
+        [b, g, r, a] = payload.subarray(row + x * 4, row + x * 4 + 4);
+        if (a > 0) hasAlpha = true;
+      } else if (bitCount === 24) {
+        [b, g, r] = payload.subarray(row + x * 3, row + x * 3 + 3);
+      } else {
+        const bit = x * bitCount;
+        const byte = payload[row + (bit >> 3)];
+        const shift = 8 - bitCount - (bit & 7);
+        const index = (byte >> shift) & ((1 << bitCount) - 1);
+        const color = paletteStart + index * 4;
+        [b, g, r] = payload.subarray(color, color + 3);
+      }
+      png.data[dst] = r;
+      png.data[dst + 1] = g;
+      png.data[dst + 2] = b;
+      png.data[dst + 3] = a;
+    }
+  }
+
+  // Without a usable alpha channel, transparency comes from the AND mask
+  if (!hasAlpha && entry.hasMask) {
+    for (let y = 0; y < height; y++) {
+      const row = maskStart + (height - 1 - y) * maskRowSize;
+      for (let x = 0; x < width; x++) {
+        const transparent = payload[row + (x >> 3)] & (0x80 >> (x & 7));
+        png.data[(y * width + x) * 4 + 3] = transparent ? 0 : 255;
+      }
+    }
+  }
+
+  return PNG.sync.write(png);
+}
+
+export type SvgEmbed = "text" | "image";
+
+const SVG_EMBEDS: SvgEmbed[] = ["text", "image"];
+
+export interface SvgFaviconOptions {
+  /**
+   * How the emoji is embedded: as <text>, rendered by the browser's own emoji
+   * font, or as a PNG of our render so it looks the same everywhere
+   */
+  embed: SvgEmbed;
+  /** Background used when the user prefers a dark color scheme */
+  darkBackground?: Background;
+  /** Tint, badge or corner dot, matching the raster favicons */
+  overlay?: IconOverlay;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * SVG element for a tile shape in a 100x100 viewBox
+ */
+function svgShapeElement(shape: IconShape): string {
+  switch (shape) {
+    case "square":
+      return '<rect class="bg" width="100" height="100"/>';
+    case "circle":
+      return '<circle class="bg" cx="50" cy="50" r="50"/>';
+    case "rounded":
+      return '<rect class="bg" width="100" height="100" rx="20"/>';
+    case "squircle": {
+      // Same superellipse as traceShapePath
+      const n = 5;
+      const steps = 64;
+      const points: string[] = [];
+      for (let i = 0; i < steps; i++) {
+        const t = (i / steps) * Math.PI * 2;
+        const cos = Math.cos(t);
+        const sin = Math.sin(t);
+        const x = 50 + 50 * Math.sign(cos) * Math.pow(Math.abs(cos), 2 / n);
+        const y = 50 + 50 * Math.sign(sin) * Math.pow(Math.abs(sin), 2 / n);
+        points.push(`${+x.toFixed(2)},${+y.toFixed(2)}`);
+      }
+      return `<path class="bg" d="M${points.join("L")}Z"/>`;
+    }
+  }
+}
+
+/**
+ * SVG paint for a background: the color itself, or a reference to a gradient
+ * definition appended to defs
+ */
+function svgBackgroundPaint(
+  background: Background,
+  id: string,
+  defs: string[]
+): string {
+  if (background.type === "color") {
+    return background.color;
+  }
+
+  const stops = background.stops
+    .map((color, i) => {
+      const offset = +((i / (background.stops.length - 1)) * 100).toFixed(2);
+      return `<stop offset="${offset}%" style="stop-color:${escapeXml(color)}"/>`;
+    })
+    .join("");
+
+  if (background.type === "linear-gradient") {
+    // Same geometry as createBackgroundFill, in bounding box units
+    const rad = (background.angle * Math.PI) / 180;
+    const dx = Math.sin(rad);
+    const dy = -Math.cos(rad);
+    const half = (Math.abs(dx) + Math.abs(dy)) / 2;
+    const coord = (value: number) => +value.toFixed(4);
+    defs.push(
+      `<linearGradient id="${id}" x1="${coord(0.5 - dx * half)}" y1="${coord(
+        0.5 - dy * half
+      )}" x2="${coord(0.5 + dx * half)}" y2="${coord(
+        0.5 + dy * half
+      )}">${stops}</linearGradient>`
+    );
+  } else {
+    defs.push(
+      `<radialGradient id="${id}" cx="0.5" cy="0.5" r="0.7071">${stops}</radialGradient>`
+    );
+  }
+  return `url(#${id})`;
+}
+
+/**
+ * Generate favicon.svg. Honors the tile background and shape, and can switch
+ * to a different background under prefers-color-scheme: dark
+ */
+async function generateSvgFavicon(
   emoji: string,
-  outDir: string,
-  generateAll: boolean
+  highResBuffer: Buffer,
+  appearance: IconAppearance,
+  options: SvgFaviconOptions
+): Promise<string> {
+  const { darkBackground, overlay = {} } = options;
+  const hasTile = Boolean(appearance.background || darkBackground);
+  const defs: string[] = [];
+  const rules: string[] = [];
+
+  if (hasTile) {
+    const light = appearance.background
+      ? svgBackgroundPaint(appearance.background, "bg", defs)
+      : "none";
+    rules.push(`.bg{fill:${escapeXml(light)}}`);
+    if (darkBackground) {
+      const dark = svgBackgroundPaint(darkBackground, "bg-dark", defs);
+      rules.push(
+        `@media (prefers-color-scheme:dark){.bg{fill:${escapeXml(dark)}}}`
+      );
+    }
+  }
+
+  // Same color matrix as the raster tint, in sRGB like the canvas
+  const tint = tintMatrix(overlay);
+  if (tint) {
+    const values = tint
+      .map((row) => [...row.map((v) => +v.toFixed(4)), 0, 0].join(" "))
+      .concat("0 0 0 1 0")
+      .join(" ");
+    defs.push(
+      `<filter id="tint" color-interpolation-filters="sRGB"><feColorMatrix type="matrix" values="${values}"/></filter>`
+    );
+  }
+
+  const parts: string[] = [
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">',
+  ];
+  if (rules.length > 0) parts.push(`<style>${rules.join("")}</style>`);
+  if (defs.length > 0) parts.push(`<defs>${defs.join("")}</defs>`);
+  if (tint) parts.push('<g filter="url(#tint)">');
+  if (hasTile) parts.push(svgShapeElement(appearance.shape ?? "square"));
+
+  // Match the raster layout: full size when transparent, inset on a tile
+  const emojiBox = hasTile ? 100 * TILE_EMOJI_SCALE : 100;
+  if (options.embed === "image") {
+    const png = await resizePng(highResBuffer, 256);
+    const offset = (100 - emojiBox) / 2;
+    parts.push(
+      `<image x="${offset}" y="${offset}" width="${emojiBox}" height="${emojiBox}" href="data:image/png;base64,${png.toString("base64")}"/>`
+    );
+  } else {
+    // Same 80% font size as emojiToImageCanvas
+    const fontSize = +(emojiBox * 0.8).toFixed(2);
+    parts.push(
+      `<text x="50" y="50" font-size="${fontSize}" text-anchor="middle" dominant-baseline="central">${escapeXml(emoji)}</text>`
+    );
+  }
+  if (tint) parts.push("</g>");
+
+  const { dot, badge } = overlayGeometry(100);
+  const round = (value: number) => +value.toFixed(2);
+  if (overlay.dot) {
+    parts.push(
+      `<circle cx="${round(dot.cx)}" cy="${round(dot.cy)}" r="${round(dot.r)}" fill="${escapeXml(overlay.dot)}" stroke="#ffffff" stroke-width="${round(dot.ring)}"/>`
+    );
+  }
+  if (overlay.badge) {
+    const color = overlay.badgeColor ?? BADGE_COLOR;
+    // No text metrics here, so estimate the width of bold capitals
+    const fontSize = Math.min(
+      badge.height * 0.78,
+      (badge.width * 0.9) / (overlay.badge.length * 0.72)
+    );
+    parts.push(
+      `<rect x="${badge.x}" y="${round(badge.y)}" width="${badge.width}" height="${round(badge.height)}" rx="${round(badge.radius)}" fill="${escapeXml(color)}"/>`,
+      `<text x="50" y="${round(badge.y + badge.height / 2)}" font-size="${round(fontSize)}" font-weight="bold" font-family="${escapeXml(OG_FONT_FAMILY)}" fill="${getContrastingTextColor({ type: "color", color })}" text-anchor="middle" dominant-baseline="central">${escapeXml(overlay.badge)}</text>`
+    );
+  }
+  parts.push("</svg>");
+
+  return parts.join("") + "\n";
+}
+
+export interface GeneratedAsset {
+  /** Path relative to the output directory, always using forward slashes */
+  path: string;
+  mimeType: string;
+  /** Pixel dimensions, absent for non-image assets like the manifest */
+  width?: number;
+  height?: number;
+  buffer: Buffer;
+}
+
+export interface ManifestOptions {
+  /** App name (default: the emoji's CLDR name, or the emoji itself) */
+  name?: string;
+  /** Short app name (default: same as name) */
+  shortName?: string;
+  /** Manifest theme_color (default: #ffffff) */
+  themeColor?: string;
+  /** Manifest background_color (default: #ffffff) */
+  backgroundColor?: string;
+}
+
+export interface GenerateOptions {
+  /**
+   * Generate the full asset set (PNG favicons, Apple touch icons,
+   * web app manifest with Android Chrome icons, og:image)
+   */
+  all?: boolean;
+  /** Web app manifest fields, only used together with `all` */
+  manifest?: ManifestOptions;
+  /**
+   * Opaque background for Apple touch icons, same syntax as background
+   * (default: background, or white)
+   */
+  appleBackground?: string;
+  /**
+   * Inset of the emoji in Apple touch icons, as a fraction of the icon size
+   * per side, from 0 to 0.4 (default: 0.1)
+   */
+  applePadding?: number;
+  /** Sizes embedded in favicon.ico, up to 256 (default: 16, 32, 48) */
+  icoSizes?: number[];
+  /**
+   * favicon.ico entries at least this wide are stored PNG-compressed rather
+   * than as bitmaps (default: 64)
+   */
+  icoPngMinSize?: number;
+  /**
+   * Icon background: a CSS color, linear-gradient(...) or radial-gradient(...).
+   * Applies to every raster target; transparent when omitted
+   */
+  background?: string;
+  /**
+   * Shape of the background tile (default: square). Setting a shape without a
+   * background uses a white tile
+   */
+  shape?: IconShape;
+  /**
+   * How favicon.svg embeds the emoji (default: text). "text" is tiny but
+   * depends on the visitor's emoji font; "image" embeds our render
+   */
+  svgEmbed?: SvgEmbed;
+  /**
+   * Background for favicon.svg when the user prefers a dark color scheme.
+   * Same syntax as background
+   */
+  darkBackground?: string;
+  /** og:image title, subtitle, layout and theming */
+  og?: OgImageOptions;
+  /**
+   * Social cards to render (default: og). og is 1200x630, twitter 1200x600,
+   * linkedin 1200x627 and square 1200x1200
+   */
+  socialCards?: SocialCardName[];
+  /**
+   * Also render maskable-preview.png, showing the maskable icon through the
+   * common platform masks. Only used together with `all`
+   */
+  maskPreview?: boolean;
+  /**
+   * Badge, corner dot or tint for the browser tab icons: favicon.ico, the PNG
+   * favicons and favicon.svg
+   */
+  overlay?: IconOverlay;
+  /**
+   * Extra favicon-<name>.ico files, each with its own overlay, e.g.
+   * { dev: { badge: "DEV" } }. See resolveVariants for the built-in ones
+   */
+  variants?: Record<string, IconOverlay>;
+  /**
+   * Scale and corner of the second emoji when composing two, as in "🍎+🚀"
+   * (corner badge) or "🍎/🚀" (overlapping diagonally)
+   */
+  compose?: ComposeOptions;
+  /**
+   * Emoji font files to register, e.g. Twemoji or Noto Color Emoji. Each is
+   * named after its file, so Twemoji.ttf becomes "Twemoji"
+   */
+  font?: string | string[];
+  /**
+   * Font family to draw the emoji with: one of the `font` files or an
+   * installed family (default: the first `font`, else the platform's emoji
+   * fonts, which differ between machines)
+   */
+  emojiStyle?: string;
+  /** Skin tone for emoji with people in them, e.g. 👍 or 🧑‍💻 */
+  skinTone?: SkinTone;
+}
+
+export interface GenerateResult {
+  /** Generated assets keyed by their relative path */
+  assets: Map<string, GeneratedAsset>;
+  /** Tags to drop into the HTML <head> section */
+  html: string;
+  /** Problems with the input that didn't stop generation */
+  warnings: string[];
+}
+
+interface SnippetSection {
+  comment: string;
+  tags: string[];
+}
+
+/**
+ * Render the <head> snippet, one commented block per asset group
+ */
+function renderHeadSnippet(sections: SnippetSection[]): string {
+  return sections
+    .map(({ comment, tags }) => [`<!-- ${comment} -->`, ...tags].join("\n"))
+    .join("\n\n");
+}
+
+interface WebManifestIcon {
+  src: string;
+  sizes: string;
+  type: string;
+  purpose?: string;
+}
+
+/**
+ * Look up the CLDR name of an emoji in the bundled dataset
+ */
+function getEmojiName(emoji: string): string | undefined {
+  const name = findEmojiEntry(emoji)?.name;
+  // Named like CLDR does, e.g. "thumbs up: medium skin tone"
+  const modifier = emoji.match(SKIN_TONE_MODIFIER)?.[0];
+  const tone = SKIN_TONES.find((t) => SKIN_TONE_MODIFIERS[t] === modifier);
+  return name && tone ? `${name}: ${tone} skin tone` : name;
+}
+
+/**
+ * Build the web app manifest object, filling in defaults for missing fields
+ */
+function createWebManifest(
+  emoji: string,
+  options: ManifestOptions = {},
+  icons: WebManifestIcon[]
 ) {
-  // Create output directory if it doesn't exist
-  if (!fs.existsSync(outDir)) {
-    fs.mkdirSync(outDir, { recursive: true });
+  const name = options.name ?? getEmojiName(emoji) ?? emoji;
+  return {
+    name,
+    short_name: options.shortName ?? name,
+    icons,
+    theme_color: options.themeColor ?? "#ffffff",
+    background_color: options.backgroundColor ?? "#ffffff",
+    display: "standalone",
+  };
+}
+
+/**
+ * Register the emoji font files and pick the family to draw with. Returns
+ * undefined to fall back to the platform's emoji fonts
+ */
+function resolveEmojiFont(options: GenerateOptions): string | undefined {
+  const files = options.font === undefined ? [] : [options.font].flat();
+  // Styles name files by their name, whatever family they got registered as
+  const registered = files.map((file) => {
+    const name = path.basename(file, path.extname(file));
+    return { name, family: registerFontFile(file, name) };
+  });
+  const style = options.emojiStyle ?? registered[0]?.name;
+  if (style === undefined) return undefined;
+
+  const same = (family: string) =>
+    family.toLowerCase() === style.toLowerCase();
+  const family =
+    registered.find(({ name }) => same(name))?.family ??
+    GlobalFonts.families.map(({ family }) => family).find(same);
+  if (!family) {
+    const names = registered.map(({ name }) => name);
+    const known = names.length > 0 ? ` (loaded: ${names.join(", ")})` : "";
+    throw new Error(
+      `Unknown emoji style "${style}". Expected a font file's name or an installed font family${known}.`
+    );
   }
+  // Only this family, so a missing glyph isn't filled in by whatever the
+  // machine happens to have
+  return `"${family}"`;
+}
 
-  // Use optimized approach: render once, resize many
-  const sizeMap = await generateAllSizesOptimized(emoji);
+/**
+ * Validate and resolve the background, shape and emoji font options
+ */
+function resolveAppearance(options: GenerateOptions): IconAppearance {
+  const { shape } = options;
+  if (shape !== undefined && !ICON_SHAPES.includes(shape)) {
+    throw new Error(
+      `Invalid shape "${shape}". Expected one of: ${ICON_SHAPES.join(", ")}.`
+    );
+  }
+  const emojiFont = resolveEmojiFont(options);
+  if (options.background !== undefined) {
+    return {
+      background: parseBackground(options.background),
+      shape,
+      emojiFont,
+    };
+  }
+  if (shape) {
+    return {
+      background: { type: "color", color: "#ffffff" },
+      shape,
+      emojiFont,
+    };
+  }
+  return { emojiFont };
+}
 
-  // Get favicon buffers
-  const faviconBuffers = SIZES.favicon.map((size) => sizeMap.get(size)!);
+/**
+ * Validate the sizes embedded in favicon.ico, sorted and deduplicated
+ */
+function resolveIcoSizes(sizes: number[] = SIZES.favicon): number[] {
+  if (sizes.length === 0) {
+    throw new Error("favicon.ico needs at least one size.");
+  }
+  for (const size of sizes) {
+    if (!Number.isInteger(size) || size < 1 || size > 256) {
+      throw new Error(
+        `Invalid ICO size "${size}". Sizes must be whole numbers from 1 to 256.`
+      );
+    }
+  }
+  return [...new Set(sizes)].sort((a, b) => a - b);
+}
 
-  // Save individual PNG favicons if --all flag is set
-  if (generateAll) {
-    const faviconDir = path.join(outDir, "favicons");
-    if (!fs.existsSync(faviconDir)) {
-      fs.mkdirSync(faviconDir, { recursive: true });
+/**
+ * Generate favicon assets in memory.
+ * Nothing is written to disk and nothing is logged; callers decide what to
+ * do with the returned buffers and <head> snippet.
+ */
+export async function generate(
+  emoji: string,
+  options: GenerateOptions = {}
+): Promise<GenerateResult> {
+  const { all = false } = options;
+  const composition = parseComposition(emoji, options.compose);
+  const appearance = resolveAppearance(options);
+  const warnings: string[] = [];
+  // The manifest would carry these as-is, and canvas would quietly paint
+  // black instead
+  const colors = {
+    "manifest theme color": options.manifest?.themeColor,
+    "manifest background color": options.manifest?.backgroundColor,
+    "og:image text color": options.og?.textColor,
+  };
+  for (const [label, color] of Object.entries(colors)) {
+    if (color !== undefined && !isValidColor(color)) {
+      throw new Error(`Invalid ${label} "${color}".`);
+    }
+  }
+  if (options.skinTone !== undefined) {
+    const tone = options.skinTone;
+    if (!SKIN_TONES.includes(tone)) {
+      throw new Error(
+        `Invalid skin tone "${tone}". Expected one of: ${SKIN_TONES.join(", ")}.`
+      );
     }
-    SIZES.favicon.forEach((size) => {
-      const buffer = sizeMap.get(size)!;
-      fs.writeFileSync(
-        path.join(faviconDir, `favicon-${size}x${size}.png`),
-        buffer
+    const parts = [composition, composition.second].filter(
+      (part): part is { emoji: string } => part !== undefined
+    );
+    const toned = parts.filter(
+      (part) => findEmojiEntry(part.emoji)?.skin_tone_support
+    );
+    for (const part of toned) {
+      part.emoji = applySkinTone(part.emoji, tone);
+    }
+    if (toned.length === 0) {
+      warnings.push(
+        `"${emoji}" doesn't come in skin tones, so the ${tone} skin tone was ignored.`
       );
+    }
+  }
+  warnings.push(
+    ...[composition.emoji, composition.second?.emoji].flatMap((part) =>
+      part ? checkEmoji(part, appearance.emojiFont) : []
+    )
+  );
+  const assets = new Map<string, GeneratedAsset>();
+  const sections: SnippetSection[] = [];
+
+  function addPng(assetPath: string, size: number, buffer: Buffer) {
+    assets.set(assetPath, {
+      path: assetPath,
+      mimeType: "image/png",
+      width: size,
+      height: size,
+      buffer,
     });
   }
 
+  const icoSizes = resolveIcoSizes(options.icoSizes);
+
+  // Use optimized approach: render once, resize many
+  const { highResBuffer, sizeMap } = await generateAllSizesOptimized(
+    composition,
+    appearance,
+    icoSizes
+  );
+
+  // Tab icons carry the overlay; home screen and social images don't
+  const overlay = Object.values(options.overlay ?? {}).some(
+    (value) => value !== undefined
+  )
+    ? options.overlay
+    : undefined;
+  if (overlay) validateOverlay(overlay);
+  const faviconPngs = new Map<number, Promise<Buffer>>();
+  const faviconPng = (size: number) => {
+    if (!faviconPngs.has(size)) {
+      const png = sizeMap.get(size)!;
+      faviconPngs.set(
+        size,
+        overlay ? applyOverlay(png, overlay) : Promise.resolve(png)
+      );
+    }
+    return faviconPngs.get(size)!;
+  };
+
   // Generate favicon.ico with multiple sizes
-  const icoBuffer = await generateIco(faviconBuffers);
-  fs.writeFileSync(path.join(outDir, "favicon.ico"), icoBuffer);
+  const icoBuffers = await Promise.all(icoSizes.map(faviconPng));
+  const icoBuffer = await generateIco(icoBuffers, {
+    pngMinSize: options.icoPngMinSize,
+  });
+  const maxIcoSize = Math.max(...icoSizes);
+  assets.set("favicon.ico", {
+    path: "favicon.ico",
+    mimeType: "image/x-icon",
+    width: maxIcoSize,
+    height: maxIcoSize,
+    buffer: icoBuffer,
+  });
+  sections.push({
+    comment: "Standard favicon",
+    tags: ['<link rel="icon" type="image/x-icon" href="/favicon.ico">'],
+  });
 
-  if (generateAll) {
-    // Create Apple touch icon directory
-    const appleDir = path.join(outDir, "apple-touch-icon");
-    if (!fs.existsSync(appleDir)) {
-      fs.mkdirSync(appleDir);
+  // Environment variants, e.g. favicon-dev.ico, for deployments to swap in
+  for (const [name, variant] of Object.entries(options.variants ?? {})) {
+    if (!/^[a-z0-9][a-z0-9-]*$/i.test(name)) {
+      throw new Error(
+        `Invalid variant name "${name}". Use letters, digits and dashes.`
+      );
     }
+    validateOverlay(variant, `"${name}" variant`);
+    const buffers = await Promise.all(
+      icoSizes.map((size) => applyOverlay(sizeMap.get(size)!, variant))
+    );
+    const assetPath = `favicon-${name}.ico`;
+    assets.set(assetPath, {
+      path: assetPath,
+      mimeType: "image/x-icon",
+      width: maxIcoSize,
+      height: maxIcoSize,
+      buffer: await generateIco(buffers, { pngMinSize: options.icoPngMinSize }),
+    });
+  }
 
-    // Save Apple touch icons
-    SIZES.apple.forEach((size) => {
-      const buffer = sizeMap.get(size)!;
-      fs.writeFileSync(
-        path.join(appleDir, `apple-touch-icon-${size}x${size}.png`),
-        buffer
+  if (all) {
+    // Resolution-independent SVG favicon for browsers that support it
+    // Compositions and custom fonts only exist as our render, so they're
+    // embedded as images
+    const svgEmbed =
+      options.svgEmbed ??
+      (composition.second || appearance.emojiFont ? "image" : "text");
+    if (!SVG_EMBEDS.includes(svgEmbed)) {
+      throw new Error(
+        `Invalid SVG embed "${svgEmbed}". Expected one of: ${SVG_EMBEDS.join(", ")}.`
+      );
+    }
+    if (svgEmbed === "text" && composition.second) {
+      throw new Error(
+        `Composed emoji can't be embedded as SVG text. Use svgEmbed "image".`
       );
+    }
+    const svg = await generateSvgFavicon(
+      composition.emoji,
+      highResBuffer,
+      appearance,
+      {
+        embed: svgEmbed,
+        darkBackground:
+          options.darkBackground !== undefined
+            ? parseBackground(options.darkBackground)
+            : undefined,
+        overlay,
+      }
+    );
+    assets.set("favicon.svg", {
+      path: "favicon.svg",
+      mimeType: "image/svg+xml",
+      buffer: Buffer.from(svg),
+    });
+    sections.push({
+      comment: "SVG favicon",
+      tags: ['<link rel="icon" type="image/svg+xml" href="/favicon.svg">'],
     });
 
-    // Generate Open Graph image
-    const ogImageBuffer = await generateOgImage(emoji);
-    fs.writeFileSync(path.join(outDir, "og-image.png"), ogImageBuffer);
+    // Individual PNG favicons
+    const faviconTags: string[] = [];
+    for (const size of SIZES.favicon) {
+      const assetPath = `favicons/favicon-${size}x${size}.png`;
+      addPng(assetPath, size, await faviconPng(size));
+      faviconTags.push(
+        `<link rel="icon" type="image/png" sizes="${size}x${size}" href="/${assetPath}">`
+      );
+    }
+    sections.push({ comment: "PNG favicon alternatives", tags: faviconTags });
 
-    console.log(`✅ Generated all favicon and Apple touch icon assets in ${outDir}!
+    // Apple touch icons, flattened onto an opaque background
+    const appleBackground = parseBackground(
+      options.appleBackground ?? options.background ?? "#ffffff"
+    );
+    const applePadding = options.applePadding ?? APPLE_PADDING;
+    if (!(applePadding >= 0 && applePadding <= 0.4)) {
+      throw new Error(
+        `Invalid Apple touch icon padding "${applePadding}". Expected a fraction from 0 to 0.4.`
+      );
+    }
+    const appleTags: string[] = [];
+    for (const size of SIZES.apple) {
+      const assetPath = `apple-touch-icon/apple-touch-icon-${size}x${size}.png`;
+      const buffer = await generateAppleTouchIcon(
+        highResBuffer,
+        size,
+        appleBackground,
+        applePadding
+      );
+      addPng(assetPath, size, buffer);
+      appleTags.push(
+        `<link rel="apple-touch-icon" sizes="${size}x${size}" href="/${assetPath}">`
+      );
 
-Add this to your HTML <head> section:
+      // iOS requests /apple-touch-icon.png by convention, even without a tag
+      if (size === 180) {
+        addPng("apple-touch-icon.png", size, buffer);
+      }
+    }
+    sections.push({ comment: "Apple Touch Icons", tags: appleTags });
 
-<!-- Standard favicon -->
-<link rel="icon" type="image/x-icon" href="/favicon.ico">
+    // Android Chrome icons and the web app manifest that references them
+    const manifestIcons: WebManifestIcon[] = SIZES.android.map((size) => {
+      const assetPath = `android-chrome-${size}x${size}.png`;
+      addPng(assetPath, size, sizeMap.get(size)!);
+      return { src: `/${assetPath}`, sizes: `${size}x${size}`, type: "image/png" };
+    });
+    const manifest = createWebManifest(
+      composition.emoji,
+      options.manifest,
+      manifestIcons
+    );
 
-<!-- PNG favicon alternatives -->
-<link rel="icon" type="image/png" sizes="16x16" href="/favicons/favicon-16x16.png">
-<link rel="icon" type="image/png" sizes="32x32" href="/favicons/favicon-32x32.png">
-<link rel="icon" type="image/png" sizes="48x48" href="/favicons/favicon-48x48.png">
+    // Maskable variants, padded into the safe zone on the icon background,
+    // falling back to the manifest background color
+    const maskableBackground: Background = appearance.background ?? {
+      type: "color",
+      color: manifest.background_color,
+    };
+    for (const size of SIZES.android) {
+      const assetPath = `android-chrome-maskable-${size}x${size}.png`;
+      const buffer = await generateMaskableIcon(
+        highResBuffer,
+        size,
+        maskableBackground
+      );
+      addPng(assetPath, size, buffer);
+      manifest.icons.push({
+        src: `/${assetPath}`,
+        sizes: `${size}x${size}`,
+        type: "image/png",
+        purpose: "maskable",
+      });
 
-<!-- Apple Touch Icons -->
-<link rel="apple-touch-icon" sizes="57x57" href="/apple-touch-icon/apple-touch-icon-57x57.png">
-<link rel="apple-touch-icon" sizes="60x60" href="/apple-touch-icon/apple-touch-icon-60x60.png">
-<link rel="apple-touch-icon" sizes="72x72" href="/apple-touch-icon/apple-touch-icon-72x72.png">
-<link rel="apple-touch-icon" sizes="76x76" href="/apple-touch-icon/apple-touch-icon-76x76.png">
-<link rel="apple-touch-icon" sizes="114x114" href="/apple-touch-icon/apple-touch-icon-114x114.png">
-<link rel="apple-touch-icon" sizes="120x120" href="/apple-touch-icon/apple-touch-icon-120x120.png">
-<link rel="apple-touch-icon" sizes="144x144" href="/apple-touch-icon/apple-touch-icon-144x144.png">
-<link rel="apple-touch-icon" sizes="152x152" href="/apple-touch-icon/apple-touch-icon-152x152.png">
-<link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon/apple-touch-icon-180x180.png">
+      if (options.maskPreview && size === Math.max(...SIZES.android)) {
+        const preview = await generateMaskPreview(buffer);
+        const image = await parsePng(preview);
+        assets.set("maskable-preview.png", {
+          path: "maskable-preview.png",
+          mimeType: "image/png",
+          width: image.width,
+          height: image.height,
+          buffer: preview,
+        });
+      }
+    }
+    assets.set("site.webmanifest", {
+      path: "site.webmanifest",
+      mimeType: "application/manifest+json",
+      buffer: Buffer.from(JSON.stringify(manifest, null, 2) + "\n"),
+    });
+    sections.push({
+      comment: "Web App Manifest",
+      tags: ['<link rel="manifest" href="/site.webmanifest">'],
+    });
 
-<!-- Open Graph Image -->
-<meta property="og:image" content="/og-image.png">`);
-  } else {
-    console.log(`✅ Generated favicon.ico in ${outDir}!
+    // Social cards: og:image plus any other requested aspect ratios
+    const og = options.og ?? {};
+    if (og.layout !== undefined && !OG_LAYOUTS.includes(og.layout)) {
+      throw new Error(
+        `Invalid og:image layout "${og.layout}". Expected one of: ${OG_LAYOUTS.join(", ")}.`
+      );
+    }
+    const cardNames = [
+      ...new Set<SocialCardName>(options.socialCards ?? ["og"]),
+    ];
+    for (const name of cardNames) {
+      if (!SOCIAL_CARD_NAMES.includes(name)) {
+        throw new Error(
+          `Invalid social card "${name}". Expected one of: ${SOCIAL_CARD_NAMES.join(", ")}.`
+        );
+      }
+    }
+    const ogBackground =
+      og.background !== undefined
+        ? parseBackground(og.background)
+        : appearance.background;
 
-Add this to your HTML <head> section:
+    const ogTags: string[] = [];
+    const twitterTags: string[] = [];
+    for (const name of cardNames) {
+      const card = SOCIAL_CARDS[name];
+      const buffer = await generateSocialCard(
+        composition,
+        card,
+        og,
+        ogBackground,
+        appearance.emojiFont
+      );
+      assets.set(card.path, {
+        path: card.path,
+        mimeType: "image/png",
+        width: card.width,
+        height: card.height,
+        buffer,
+      });
 
-<!-- Standard favicon -->
-<link rel="icon" type="image/x-icon" href="/favicon.ico">`);
+      if (name === "twitter") {
+        twitterTags.push(
+          '<meta name="twitter:card" content="summary_large_image">',
+          `<meta name="twitter:image" content="/${card.path}">`
+        );
+      } else {
+        ogTags.push(
+          `<meta property="og:image" content="/${card.path}">`,
+          `<meta property="og:image:width" content="${card.width}">`,
+          `<meta property="og:image:height" content="${card.height}">`
+        );
+      }
+    }
+    if (ogTags.length > 0) {
+      sections.push({ comment: "Open Graph Image", tags: ogTags });
+    }
+    if (twitterTags.length > 0) {
+      sections.push({ comment: "Twitter Card", tags: twitterTags });
+    }
   }
+
+  return { assets, html: renderHeadSnippet(sections), warnings };
 }
 
-// Parse arguments and run (only if this file is executed directly, not imported)
-if (require.main === module) {
-  const { emoji, outDir, generateAll } = parseArgs();
+/**
+ * Write generated assets below outDir, creating directories as needed
+ */
+export function writeAssets(
+  assets: Map<string, GeneratedAsset>,
+  outDir: string
+): string[] {
+  const written: string[] = [];
+  for (const asset of assets.values()) {
+    const filePath = path.join(outDir, ...asset.path.split("/"));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, asset.buffer);
+    written.push(filePath);
+  }
+  return written;
+}
 
-  (async () => {
-    if (emoji) {
-      await generateFavicons(emoji, outDir, generateAll);
-    } else {
-      const selectedEmoji = await interactiveEmojiPicker();
-      const selectedFolder = await interactiveFolderPrompt();
-      const selectedAll = await interactiveAllToggle();
-      console.log("");
-      await generateFavicons(selectedEmoji, selectedFolder, selectedAll);
+/**
+ * Point the root-relative URLs in a <head> snippet at another base, e.g.
+ * "/favicon.ico" becomes "/app/favicon.ico" for a base of "/app/"
+ */
+function rebaseSnippet(html: string, base: string): string {
+  if (base === "/") return html;
+  return html.replace(/(href|content)="\//g, `$1="${base}`);
+}
+
+export type PresetName = "next" | "vite" | "astro" | "sveltekit";
+
+interface FrameworkPreset {
+  label: string;
+  /** package.json dependency that identifies the framework */
+  dependency: string;
+  /** Directory the framework serves at the site root */
+  publicDir: string;
+  /** Assets the framework expects somewhere other than publicDir */
+  locations?: Record<string, string>;
+  /** Where the snippet goes, e.g. "app/layout.tsx" */
+  snippetTarget: string;
+  /** Turn the generated assets and <head> tags into the framework's snippet */
+  snippet?: (assets: GeneratedAsset[], html: string) => string;
+}
+
+/**
+ * Format a JSON-like value as a TypeScript literal, keeping objects and arrays
+ * on one line when they fit in 80 columns after `prefix`
+ */
+function formatTsLiteral(value: unknown, indent = "", prefix = ""): string {
+  if (typeof value !== "object" || value === null) {
+    return JSON.stringify(value);
+  }
+  const inner = `${indent}  `;
+  const isArray = Array.isArray(value);
+  const entries = isArray
+    ? value.map((item) => formatTsLiteral(item, inner))
+    : Object.entries(value).map(
+        ([key, item]) => `${key}: ${formatTsLiteral(item, inner, `${key}: `)}`
+      );
+  const [open, close] = isArray ? ["[", "]"] : ["{", "}"];
+  const oneLine = isArray
+    ? `[${entries.join(", ")}]`
+    : `{ ${entries.join(", ")} }`;
+  if (
+    !oneLine.includes("\n") &&
+    indent.length + prefix.length + oneLine.length + 1 <= 80
+  ) {
+    return oneLine;
+  }
+  const lines = entries.map((entry) => `${inner}${entry},`);
+  return [open, ...lines, `${indent}${close}`].join("\n");
+}
+
+/**
+ * Next.js links app/favicon.ico itself. Everything else is served from
+ * public/ and listed in the metadata export, since app/icon.png and
+ * app/apple-icon.png would replace metadata.icons rather than add to it
+ */
+function renderNextMetadata(assets: GeneratedAsset[]): string {
+  const url = (asset: GeneratedAsset) => `/${asset.path}`;
+  const sizes = (asset: GeneratedAsset) => `${asset.width}x${asset.height}`;
+  const metadata: Record<string, unknown> = {};
+
+  const icon = assets
+    .filter(
+      (asset) =>
+        asset.path === "favicon.svg" || asset.path.startsWith("favicons/")
+    )
+    .map((asset) =>
+      asset.mimeType === "image/svg+xml"
+        ? { url: url(asset), type: asset.mimeType }
+        : { url: url(asset), type: asset.mimeType, sizes: sizes(asset) }
+    );
+  const apple = assets
+    .filter((asset) => asset.path.startsWith("apple-touch-icon/"))
+    .map((asset) => ({ url: url(asset), sizes: sizes(asset) }));
+  if (icon.length > 0 || apple.length > 0) {
+    metadata.icons = { icon, apple };
+  }
+
+  if (assets.some((asset) => asset.path === "site.webmanifest")) {
+    metadata.manifest = "/site.webmanifest";
+  }
+
+  const cardAsset = (name: SocialCardName) =>
+    assets.find((asset) => asset.path === SOCIAL_CARDS[name].path);
+  const twitter = cardAsset("twitter");
+  const images = SOCIAL_CARD_NAMES.filter((name) => name !== "twitter")
+    .map(cardAsset)
+    .filter((asset): asset is GeneratedAsset => asset !== undefined)
+    .map((asset) => ({
+      url: url(asset),
+      width: asset.width,
+      height: asset.height,
+    }));
+  if (images.length > 0) {
+    metadata.openGraph = { images };
+  }
+  if (twitter) {
+    metadata.twitter = { card: "summary_large_image", images: [url(twitter)] };
+  }
+
+  if (Object.keys(metadata).length === 0) {
+    return "// app/favicon.ico is linked automatically, nothing else to add.";
+  }
+  return `import type { Metadata } from "next";
+
+// app/favicon.ico is linked automatically
+export const metadata: Metadata = ${formatTsLiteral(metadata)};`;
+}
+
+const PRESETS: Record<PresetName, FrameworkPreset> = {
+  next: {
+    label: "Next.js (app router)",
+    dependency: "next",
+    publicDir: "public",
+    locations: { "favicon.ico": "app/favicon.ico" },
+    snippetTarget: "app/layout.tsx",
+    snippet: renderNextMetadata,
+  },
+  vite: {
+    label: "Vite",
+    dependency: "vite",
+    publicDir: "public",
+    snippetTarget: "the <head> of index.html",
+  },
+  astro: {
+    label: "Astro",
+    dependency: "astro",
+    publicDir: "public",
+    snippetTarget: "the <head> of your layout",
+  },
+  sveltekit: {
+    label: "SvelteKit",
+    dependency: "@sveltejs/kit",
+    publicDir: "static",
+    snippetTarget: "the <head> of src/app.html",
+    snippet: (_, html) => rebaseSnippet(html, "%sveltekit.assets%/"),
+  },
+};
+
+// Checked in this order, since SvelteKit and Astro projects also depend on vite
+const PRESET_NAMES: PresetName[] = ["next", "sveltekit", "astro", "vite"];
+
+/**
+ * Guess the framework from the dependencies in `cwd`'s package.json
+ */
+export function detectFramework(
+  cwd = process.cwd()
+): PresetName | undefined {
+  let pkg: {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  };
+  try {
+    pkg = JSON.parse(fs.readFileSync(path.join(cwd, "package.json"), "utf8"));
+  } catch {
+    return undefined;
+  }
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+  return PRESET_NAMES.find((name) => PRESETS[name].dependency in deps);
+}
+
+/**
+ * Move generated assets to where a framework expects them, relative to the
+ * project root, and swap the <head> tags for the framework's snippet
+ */
+export function applyPreset(
+  result: GenerateResult,
+  name: PresetName
+): GenerateResult {
+  const preset = PRESETS[name];
+  if (!preset) {
+    throw new Error(
+      `Invalid preset "${name}". Expected one of: ${PRESET_NAMES.join(", ")}.`
+    );
+  }
+
+  const assets = new Map<string, GeneratedAsset>();
+  for (const asset of result.assets.values()) {
+    const target =
+      preset.locations?.[asset.path] ?? `${preset.publicDir}/${asset.path}`;
+    assets.set(target, { ...asset, path: target });
+  }
+
+  const html = preset.snippet
+    ? preset.snippet([...result.assets.values()], result.html)
+    : result.html;
+  return { assets, html, warnings: result.warnings };
+}
+
+const INJECT_START = "<!-- emojico:start -->";
+const INJECT_END = "<!-- emojico:end -->";
+
+export interface InjectResult {
+  /** The document with the emojico block inserted or replaced */
+  html: string;
+  status: "inserted" | "updated" | "unchanged";
+  /** Tags present in the new block but not the old one */
+  added: string[];
+  /** Tags present in the old block but not the new one */
+  removed: string[];
+}
+
+/**
+ * Insert the <head> snippet into an HTML document, between
+ * `<!-- emojico:start -->` and `<!-- emojico:end -->` markers. An existing
+ * block is replaced in place, otherwise a new one goes right before </head>.
+ * Everything outside the block is left untouched.
+ */
+export function injectHeadSnippet(
+  document: string,
+  snippet: string
+): InjectResult {
+  const eol = document.includes("\r\n") ? "\r\n" : "\n";
+  const tagsOf = (block: string) =>
+    block
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.startsWith("<") && !line.startsWith("<!--"));
+  // The first line is left unindented; callers place it after the indent
+  const renderBlock = (indent: string) =>
+    [INJECT_START, ...snippet.split("\n"), INJECT_END]
+      .map((line, i) => (line && i > 0 ? indent + line : line))
+      .join(eol);
+  const lineIndent = (index: number) => {
+    const lineStart = document.lastIndexOf("\n", index - 1) + 1;
+    const before = document.slice(lineStart, index);
+    return /^[ \t]*$/.test(before) ? before : undefined;
+  };
+
+  const start = document.indexOf(INJECT_START);
+  if (start !== -1) {
+    const end = document.indexOf(INJECT_END, start);
+    if (end === -1) {
+      throw new Error(`Found ${INJECT_START} without ${INJECT_END}.`);
+    }
+    const previous = document.slice(start, end + INJECT_END.length);
+    const block = renderBlock(lineIndent(start) ?? "");
+    const previousTags = tagsOf(previous);
+    const tags = tagsOf(block);
+    return {
+      html:
+        document.slice(0, start) +
+        block +
+        document.slice(start + previous.length),
+      status: block === previous ? "unchanged" : "updated",
+      added: tags.filter((tag) => !previousTags.includes(tag)),
+      removed: previousTags.filter((tag) => !tags.includes(tag)),
+    };
+  }
+
+  const headEnd = /<\/head\s*>/i.exec(document);
+  if (!headEnd) {
+    throw new Error("Could not find </head> to insert the favicon tags into.");
+  }
+
+  // Match the indentation of the other <head> children where possible
+  const headIndent = lineIndent(headEnd.index);
+  let block: string;
+  let insertAt: number;
+  if (headIndent !== undefined) {
+    const prevLineEnd = document.lastIndexOf("\n", headEnd.index - 1);
+    const prevLineStart = document.lastIndexOf("\n", prevLineEnd - 1) + 1;
+    const childIndent =
+      /^[ \t]*/.exec(document.slice(prevLineStart, prevLineEnd))![0];
+    const indent =
+      childIndent.length > headIndent.length
+        ? childIndent
+        : `${headIndent}  `;
+    block = indent + renderBlock(indent) + eol;
+    insertAt = headEnd.index - headIndent.length;
+  } else {
+    block = renderBlock("");
+    insertAt = headEnd.index;
+  }
+
+  return {
+    html: document.slice(0, insertAt) + block + document.slice(insertAt),
+    status: "inserted",
+    added: tagsOf(block),
+    removed: [],
+  };
+}
+
+async function generateFavicons(
+  emoji: string,
+  outDir: string,
+  options: GenerateOptions,
+  inject?: string,
+  preset?: PresetName
+) {
+  if (preset && !PRESET_NAMES.includes(preset)) {
+    throw new Error(
+      `Invalid preset "${preset}". Expected one of: ${PRESET_NAMES.join(", ")}.`
+    );
+  }
+  if (inject && preset === "next") {
+    throw new Error(
+      "--inject needs an HTML file, but the next preset prints a metadata export."
+    );
+  }
+  if (inject && !fs.existsSync(inject)) {
+    throw new Error(`HTML file not found: ${inject}`);
+  }
+  const generated = await generate(emoji, options);
+  for (const warning of generated.warnings) {
+    console.warn(`⚠️  ${warning}`);
+  }
+  const { assets, html } = preset
+    ? applyPreset(generated, preset)
+    : generated;
+
+  // Create output directory if it doesn't exist
+  if (!fs.existsSync(outDir)) {
+    fs.mkdirSync(outDir, { recursive: true });
+  }
+  writeAssets(assets, outDir);
+
+  // Offer the emoji first next time the picker opens, in the tone it was
+  // drawn in
+  const { emoji: drawn } = parseComposition(emoji, options.compose);
+  rememberRecentEmoji(
+    options.skinTone && findEmojiEntry(drawn)?.skin_tone_support
+      ? applySkinTone(drawn, options.skinTone)
+      : drawn
+  );
+
+  // Presets spread assets over several folders, e.g. app/ and public/
+  const where = preset
+    ? [...new Set([...assets.keys()].map((key) => key.split("/")[0]))]
+        .map((dir) => path.join(outDir, dir))
+        .join(" and ")
+    : outDir;
+  const variantFiles = [...assets.keys()].filter((key) =>
+    /(^|\/)favicon-[^/]+\.ico$/.test(key)
+  );
+  const summary = (
+    options.all
+      ? `✅ Generated all favicon and Apple touch icon assets in ${where}!`
+      : `✅ Generated favicon.ico in ${where}!`
+  ).concat(
+    variantFiles.length > 0
+      ? `\n🏷️  Environment variants: ${variantFiles.join(", ")}`
+      : ""
+  );
+
+  if (!inject) {
+    const target = preset
+      ? PRESETS[preset].snippetTarget
+      : "your HTML <head> section";
+    console.log(`${summary}
+
+Add this to ${target}:
+
+${html}`);
+    return;
+  }
+
+  const result = injectHeadSnippet(fs.readFileSync(inject, "utf8"), html);
+  if (result.status !== "unchanged") {
+    fs.writeFileSync(inject, result.html);
+  }
+
+  console.log(summary);
+  if (result.status === "unchanged") {
+    console.log(`📝 ${inject} is already up to date.`);
+    return;
+  }
+  console.log(
+    result.status === "inserted"
+      ? `📝 Added ${result.added.length} ${result.added.length === 1 ? "tag" : "tags"} to the <head> of ${inject}:`
+      : `📝 Updated the emojico tags in ${inject}:`
+  );
+  for (const tag of result.removed) console.log(`  - ${tag}`);
+  for (const tag of result.added) console.log(`  + ${tag}`);
+  if (result.added.length === 0 && result.removed.length === 0) {
+    console.log("  (formatting only)");
+  }
+}
+
+export interface EmojicoConfig extends GenerateOptions {
+  /** Emoji to generate from; running plain `emojico` skips the picker */
+  emoji?: string;
+  /** Output directory, relative to the config file (default: its directory) */
+  out?: string;
+  /** HTML file to inject the <head> tags into, relative to the config file */
+  inject?: string;
+  /** Framework to lay out files for, with `out` as the project root */
+  preset?: PresetName;
+}
+
+const CONFIG_FILE = "emojico.config.json";
+
+interface ConfigField {
+  /** Describes valid values, e.g. "a string" */
+  expected: string;
+  check: (value: unknown) => boolean;
+  /** Schema for every value of an object that passes the check */
+  each?: ConfigSchema;
+}
+
+type ConfigSchema = { [key: string]: ConfigField | ConfigSchema };
+
+const isString = (value: unknown) => typeof value === "string";
+const optionalString: ConfigField = { expected: "a string", check: isString };
+const colorField: ConfigField = {
+  expected: "a CSS color",
+  check: (value) => isString(value) && isValidColor(value as string),
+};
+const backgroundField: ConfigField = {
+  expected: "a CSS color, linear-gradient(...) or radial-gradient(...)",
+  check: (value) => {
+    if (!isString(value)) return false;
+    try {
+      parseBackground(value as string);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+const oneOf = (values: readonly string[]): ConfigField => ({
+  expected: `one of: ${values.join(", ")}`,
+  check: (value) => values.includes(value as string),
+});
+
+const OVERLAY_SCHEMA: ConfigSchema = {
+  badge: optionalString,
+  badgeColor: optionalString,
+  dot: optionalString,
+  hue: { expected: "a number", check: Number.isFinite },
+  grayscale: {
+    expected: "true or false",
+    check: (value) => typeof value === "boolean",
+  },
+};
+
+const CONFIG_SCHEMA: ConfigSchema = {
+  emoji: {
+    expected: "a non-empty string",
+    check: (value) => isString(value) && (value as string).length > 0,
+  },
+  out: optionalString,
+  inject: optionalString,
+  preset: oneOf(PRESET_NAMES),
+  all: { expected: "true or false", check: (v) => typeof v === "boolean" },
+  manifest: {
+    name: optionalString,
+    shortName: optionalString,
+    themeColor: colorField,
+    backgroundColor: colorField,
+  },
+  appleBackground: backgroundField,
+  applePadding: {
+    expected: "a number from 0 to 0.4",
+    check: (value) =>
+      typeof value === "number" && value >= 0 && value <= 0.4,
+  },
+  icoSizes: {
+    expected: "a list of whole numbers from 1 to 256",
+    check: (value) =>
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every((size) => Number.isInteger(size) && size >= 1 && size <= 256),
+  },
+  icoPngMinSize: {
+    expected: "a whole number",
+    check: (value) => Number.isInteger(value) && (value as number) >= 0,
+  },
+  background: backgroundField,
+  shape: oneOf(ICON_SHAPES),
+  svgEmbed: oneOf(SVG_EMBEDS),
+  darkBackground: backgroundField,
+  og: {
+    title: optionalString,
+    subtitle: optionalString,
+    background: backgroundField,
+    layout: oneOf(OG_LAYOUTS),
+    font: optionalString,
+    textColor: colorField,
+  },
+  socialCards: {
+    expected: `a list of cards from: ${SOCIAL_CARD_NAMES.join(", ")}`,
+    check: (value) =>
+      Array.isArray(value) &&
+      value.every((name) => SOCIAL_CARD_NAMES.includes(name)),
+  },
+  maskPreview: {
+    expected: "true or false",
+    check: (value) => typeof value === "boolean",
+  },
+  overlay: OVERLAY_SCHEMA,
+  compose: {
+    scale: {
+      expected: "a fraction up to 1",
+      check: (value) => typeof value === "number" && value > 0 && value <= 1,
+    },
+    position: oneOf(CORNERS),
+  },
+  font: {
+    expected: "a font file or a list of font files",
+    check: (value) =>
+      isString(value) || (Array.isArray(value) && value.every(isString)),
+  },
+  emojiStyle: optionalString,
+  skinTone: oneOf(SKIN_TONES),
+  variants: {
+    expected:
+      'a list of names, or an object of overlays like { "dev": { "badge": "DEV" } }',
+    check: (value) =>
+      Array.isArray(value)
+        ? value.every(isString)
+        : typeof value === "object" && value !== null,
+    each: OVERLAY_SCHEMA,
+  },
+};
+
+/**
+ * Check a parsed config against the schema, throwing on the first unknown
+ * key or invalid value with its dotted path, e.g. "og.layout"
+ */
+function validateConfig(
+  value: unknown,
+  schema: ConfigSchema,
+  source: string,
+  prefix = ""
+): void {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(
+      `${source}: ${prefix ? `"${prefix.slice(0, -1)}"` : "config"} must be an object.`
+    );
+  }
+  for (const [key, entry] of Object.entries(value)) {
+    const field = schema[key];
+    if (!field) {
+      throw new Error(
+        `${source}: unknown option "${prefix}${key}". Expected one of: ${Object.keys(schema).join(", ")}.`
+      );
+    }
+    if (!("check" in field)) {
+      validateConfig(entry, field as ConfigSchema, source, `${prefix}${key}.`);
+      continue;
+    }
+    const { check, expected, each } = field as ConfigField;
+    if (!check(entry)) {
+      throw new Error(
+        `${source}: "${prefix}${key}" must be ${expected} (got ${JSON.stringify(entry)}).`
+      );
+    }
+    if (each && !Array.isArray(entry)) {
+      for (const [name, item] of Object.entries(entry as object)) {
+        validateConfig(item, each, source, `${prefix}${key}.${name}.`);
+      }
+    }
+  }
+}
+
+/**
+ * Load and validate the project config: the given file, else
+ * emojico.config.json, else the "emojico" key of package.json in `cwd`.
+ * Paths in the config are resolved relative to the file they come from.
+ * Returns undefined when there is no config.
+ */
+export function loadConfig(
+  configPath?: string,
+  cwd = process.cwd()
+): { config: EmojicoConfig; source: string } | undefined {
+  let file: string;
+  if (configPath) {
+    file = path.resolve(cwd, configPath);
+    if (!fs.existsSync(file)) {
+      throw new Error(`Config file not found: ${configPath}`);
+    }
+  } else {
+    const found = [CONFIG_FILE, "package.json"]
+      .map((name) => path.join(cwd, name))
+      .find((candidate) => fs.existsSync(candidate));
+    if (!found) return undefined;
+    file = found;
+  }
+
+  const relative = path.relative(cwd, file) || file;
+  const isPackageJson = path.basename(file) === "package.json";
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    // A package.json we only came across isn't ours to complain about
+    if (isPackageJson && !configPath) return undefined;
+    throw new Error(`Could not parse ${relative}: ${(error as Error).message}`);
+  }
+
+  // package.json only configures emojico through its "emojico" key
+  let source = relative;
+  if (isPackageJson) {
+    raw = (raw as { emojico?: unknown } | null)?.emojico;
+    if (raw === undefined) {
+      if (configPath) {
+        throw new Error(`${relative} has no "emojico" key.`);
+      }
+      return undefined;
+    }
+    source = `${relative}#emojico`;
+  }
+  validateConfig(raw, CONFIG_SCHEMA, source);
+
+  const config = { ...(raw as EmojicoConfig) };
+  if (Array.isArray(config.variants)) {
+    config.variants = resolveVariants(config.variants);
+  }
+  const baseDir = path.dirname(file);
+  config.out =
+    path.relative(cwd, path.resolve(baseDir, config.out ?? ".")) || ".";
+  if (config.inject) {
+    config.inject = path.relative(cwd, path.resolve(baseDir, config.inject));
+  }
+  if (config.og?.font) {
+    config.og = { ...config.og, font: path.resolve(baseDir, config.og.font) };
+  }
+  if (config.font !== undefined) {
+    config.font = [config.font]
+      .flat()
+      .map((file) => path.resolve(baseDir, file));
+  }
+  return { config, source };
+}
+
+/**
+ * Layer CLI options over config options. Unset CLI values leave the config
+ * value in place; object options like og are merged one level deep
+ */
+function mergeOptions(
+  base: GenerateOptions,
+  overrides: GenerateOptions
+): GenerateOptions {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+  return {
+    ...base,
+    ...defined,
+    manifest: { ...base.manifest, ...overrides.manifest },
+    og: { ...base.og, ...overrides.og },
+    overlay: { ...base.overlay, ...overrides.overlay },
+    compose: { ...base.compose, ...overrides.compose },
+  };
+}
+
+export interface PluginOptions extends GenerateOptions {
+  /** Emoji to generate from (default: the emoji in the project config) */
+  emoji?: string;
+}
+
+/**
+ * Shared core of the bundler plugins: resolves the plugin options over the
+ * project config and generates the assets, reusing the previous result
+ * until the emoji or options change
+ */
+function createPluginGenerator(options: PluginOptions) {
+  let cache: { key: string; result: Promise<GenerateResult> } | undefined;
+  // Dev servers ask on every request, so the config is only read again once
+  // one of the files it can come from changes
+  const configs = new Map<string, { stamp: string; config: EmojicoConfig }>();
+  const configFor = (root: string): EmojicoConfig => {
+    const stamp = [CONFIG_FILE, "package.json"]
+      .map((name) => {
+        const stat = fs.statSync(path.join(root, name), {
+          throwIfNoEntry: false,
+        });
+        return stat ? `${stat.mtimeMs}:${stat.size}` : "-";
+      })
+      .join("|");
+    const cached = configs.get(root);
+    if (cached?.stamp === stamp) return cached.config;
+    const config = loadConfig(undefined, root)?.config ?? {};
+    configs.set(root, { stamp, config });
+    return config;
+  };
+
+  return async (root: string): Promise<GenerateResult> => {
+    const config = configFor(root);
+    const {
+      emoji: configEmoji,
+      out,
+      inject,
+      preset,
+      ...configOptions
+    } = config;
+    const { emoji = configEmoji, ...pluginOptions } = options;
+    if (!emoji) {
+      throw new Error(
+        "emojico: pass an emoji to the plugin or set one in emojico.config.json."
+      );
+    }
+
+    const resolved = mergeOptions(configOptions, pluginOptions);
+    const key = JSON.stringify([emoji, resolved]);
+    if (cache?.key !== key) {
+      const result = generate(emoji, resolved).then((generated) => {
+        for (const warning of generated.warnings) {
+          console.warn(`emojico: ${warning}`);
+        }
+        return generated;
+      });
+      // Don't hold on to failures, so fixing e.g. a missing font file works
+      result.catch(() => {
+        if (cache?.key === key) cache = undefined;
+      });
+      cache = { key, result };
+    }
+    return cache.result;
+  };
+}
+
+// Just enough of each bundler's plugin API, so the typings don't depend on
+// the bundlers being installed
+
+interface VitePlugin {
+  name: string;
+  configResolved(config: { root: string; base: string }): void;
+  buildStart(): Promise<void>;
+  configureServer(server: {
+    middlewares: {
+      use(
+        handler: (
+          req: { url?: string },
+          res: {
+            setHeader(name: string, value: string): void;
+            end(body: Buffer): void;
+          },
+          next: () => void
+        ) => void
+      ): void;
+    };
+  }): void;
+  transformIndexHtml(html: string): Promise<string>;
+  generateBundle(this: {
+    emitFile(file: { type: "asset"; fileName: string; source: Buffer }): string;
+  }): Promise<void>;
+}
+
+// Every path generate() can produce, so the dev server can tell favicon
+// requests apart without generating anything
+const GENERATED_ASSET_PATH = new RegExp(
+  "^(?:" +
+    [
+      "favicon(?:-[^/]+)?\\.ico",
+      "favicon\\.svg",
+      "favicons/favicon-\\d+x\\d+\\.png",
+      "apple-touch-icon(?:/apple-touch-icon-\\d+x\\d+)?\\.png",
+      "android-chrome-(?:maskable-)?\\d+x\\d+\\.png",
+      "maskable-preview\\.png",
+      "site\\.webmanifest",
+      ...Object.values(SOCIAL_CARDS).map((card) =>
+        card.path.replace(/\./g, "\\.")
+      ),
+    ].join("|") +
+    ")$"
+);
+
+/**
+ * Vite plugin: emits the assets into the build output, serves them from the
+ * dev server and injects the <head> tags into index.html
+ */
+export function vitePlugin(options: PluginOptions = {}): VitePlugin {
+  const generateFor = createPluginGenerator(options);
+  let root = process.cwd();
+  let base = "/";
+
+  return {
+    name: "emojico",
+    configResolved(config) {
+      root = config.root;
+      base = config.base;
+    },
+    async buildStart() {
+      await generateFor(root);
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split("?")[0] ?? "";
+        const name = url.slice(base.length);
+        if (!url.startsWith(base) || !GENERATED_ASSET_PATH.test(name)) {
+          return next();
+        }
+        generateFor(root).then(
+          ({ assets }) => {
+            const asset = assets.get(name);
+            if (!asset) return next();
+            res.setHeader("Content-Type", asset.mimeType);
+            res.end(asset.buffer);
+          },
+          (error) => {
+            // A broken favicon setup shouldn't take the rest of the app down
+            console.error(`emojico: ${error.message}`);
+            next();
+          }
+        );
+      });
+    },
+    async transformIndexHtml(html) {
+      const result = await generateFor(root);
+      return injectHeadSnippet(html, rebaseSnippet(result.html, base)).html;
+    },
+    async generateBundle() {
+      const { assets } = await generateFor(root);
+      for (const asset of assets.values()) {
+        this.emitFile({
+          type: "asset",
+          fileName: asset.path,
+          source: asset.buffer,
+        });
+      }
+    },
+  };
+}
+
+interface WebpackCompilation {
+  hooks: {
+    processAssets: {
+      tapPromise(
+        options: { name: string; stage: number },
+        callback: () => Promise<void>
+      ): void;
+    };
+  };
+  outputOptions: { publicPath?: unknown };
+  getAssets(): ReadonlyArray<{
+    name: string;
+    source: { source(): string | Buffer };
+  }>;
+  emitAsset(file: string, source: unknown): void;
+  updateAsset(file: string, source: unknown): void;
+}
+
+interface WebpackCompiler {
+  context: string;
+  webpack: {
+    Compilation: {
+      PROCESS_ASSETS_STAGE_ADDITIONAL: number;
+      PROCESS_ASSETS_STAGE_SUMMARIZE: number;
+    };
+    sources: { RawSource: new (source: string | Buffer) => unknown };
+  };
+  hooks: {
+    thisCompilation: {
+      tap(
+        name: string,
+        callback: (compilation: WebpackCompilation) => void
+      ): void;
+    };
+  };
+}
+
+/**
+ * The URL the assets are served from. "auto" and functions are worked out in
+ * the browser, so those keep the tags at the site root
+ */
+function webpackBase(compilation: WebpackCompilation): string {
+  const { publicPath } = compilation.outputOptions;
+  if (typeof publicPath !== "string" || !publicPath || publicPath === "auto") {
+    return "/";
+  }
+  return publicPath.endsWith("/") ? publicPath : `${publicPath}/`;
+}
+
+/**
+ * webpack 5 plugin: emits the assets and injects the <head> tags into every
+ * HTML asset, e.g. the ones html-webpack-plugin writes
+ */
+export function webpackPlugin(options: PluginOptions = {}): {
+  apply(compiler: WebpackCompiler): void;
+} {
+  const generateFor = createPluginGenerator(options);
+
+  return {
+    apply(compiler) {
+      const { Compilation, sources } = compiler.webpack;
+      compiler.hooks.thisCompilation.tap("emojico", (compilation) => {
+        compilation.hooks.processAssets.tapPromise(
+          {
+            name: "emojico",
+            stage: Compilation.PROCESS_ASSETS_STAGE_ADDITIONAL,
+          },
+          async () => {
+            const { assets } = await generateFor(compiler.context);
+            for (const asset of assets.values()) {
+              compilation.emitAsset(
+                asset.path,
+                new sources.RawSource(asset.buffer)
+              );
+            }
+          }
+        );
+        // html-webpack-plugin emits its pages at an earlier stage than this
+        compilation.hooks.processAssets.tapPromise(
+          {
+            name: "emojico",
+            stage: Compilation.PROCESS_ASSETS_STAGE_SUMMARIZE,
+          },
+          async () => {
+            const result = await generateFor(compiler.context);
+            const html = rebaseSnippet(result.html, webpackBase(compilation));
+            for (const { name, source } of compilation.getAssets()) {
+              if (!name.endsWith(".html")) continue;
+              const page = source.source().toString();
+              // Fragments and partials have no <head> to put the tags in
+              if (!page.includes(INJECT_START) && !/<\/head\s*>/i.test(page)) {
+                continue;
+              }
+              compilation.updateAsset(
+                name,
+                new sources.RawSource(injectHeadSnippet(page, html).html)
+              );
+            }
+          }
+        );
+      });
+    },
+  };
+}
+
+export interface EsbuildPluginOptions extends PluginOptions {
+  /**
+   * HTML entry to copy into the output directory with the <head> tags
+   * injected, since esbuild doesn't process HTML itself
+   */
+  html?: string;
+}
+
+interface EsbuildPlugin {
+  name: string;
+  setup(build: {
+    initialOptions: {
+      absWorkingDir?: string;
+      outdir?: string;
+      outfile?: string;
+    };
+    onEnd(
+      callback: (result: {
+        errors: unknown[];
+      }) => Promise<{ errors: Array<{ text: string }> } | void>
+    ): void;
+  }): void;
+}
+
+/**
+ * esbuild plugin: writes the assets next to the build output once the build
+ * succeeds, and optionally an HTML entry with the <head> tags injected
+ */
+export function esbuildPlugin(
+  options: EsbuildPluginOptions = {}
+): EsbuildPlugin {
+  const { html: htmlEntry, ...pluginOptions } = options;
+  const generateFor = createPluginGenerator(pluginOptions);
+
+  return {
+    name: "emojico",
+    setup(build) {
+      const root = build.initialOptions.absWorkingDir ?? process.cwd();
+      build.onEnd(async (result) => {
+        if (result.errors.length > 0) return;
+        const { outdir, outfile } = build.initialOptions;
+        const outDir = outdir ?? (outfile && path.dirname(outfile));
+        if (!outDir) {
+          const text = "emojico needs an outdir or outfile to write to.";
+          return { errors: [{ text }] };
+        }
+
+        try {
+          const { assets, html } = await generateFor(root);
+          const target = path.resolve(root, outDir);
+          writeAssets(assets, target);
+          if (htmlEntry) {
+            const source = path.resolve(root, htmlEntry);
+            const page = fs.readFileSync(source, "utf8");
+            fs.writeFileSync(
+              path.join(target, path.basename(source)),
+              injectHeadSnippet(page, html).html
+            );
+          }
+        } catch (error) {
+          return { errors: [{ text: (error as Error).message }] };
+        }
+      });
+    },
+  };
+}
+
+const PNG_COLOR_TYPES: Record<number, { name: string; channels: number }> = {
+  0: { name: "grayscale", channels: 1 },
+  2: { name: "RGB", channels: 3 },
+  3: { name: "indexed", channels: 1 },
+  4: { name: "grayscale + alpha", channels: 2 },
+  6: { name: "RGBA", channels: 4 },
+};
+
+/**
+ * Describe a PNG from its IHDR chunk, e.g. "32x32, 8-bit RGBA"
+ */
+function describePng(png: Buffer): string {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const bitDepth = png.readUInt8(24);
+  const colorType = PNG_COLOR_TYPES[png.readUInt8(25)]?.name ?? "unknown";
+  return `${width}x${height}, ${bitDepth}-bit ${colorType}`;
+}
+
+/**
+ * Report on an ICO or PNG file, optionally extracting ICO entries as PNGs.
+ * Returns the number of problems found.
+ */
+function inspectFile(file: string, extractDir?: string): number {
+  const data = fs.readFileSync(file);
+  const name = path.basename(file);
+
+  if (data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    if (data.length < 26 || data.toString("latin1", 12, 16) !== "IHDR") {
+      console.log(`${name}: PNG, ${data.length} bytes\n`);
+      console.log("⚠️  PNG is truncated.");
+      return 1;
+    }
+    console.log(`${name}: PNG, ${describePng(data)}, ${data.length} bytes`);
+    if (extractDir) {
+      console.log("\nNothing to extract from a PNG.");
+    }
+    return 0;
+  }
+
+  const { entries, errors } = validateIco(data);
+  if (entries.length === 0 && errors.length > 0) {
+    console.log(`${name}: not a valid ICO or PNG file\n`);
+    errors.forEach((error) => console.log(`⚠️  ${error}`));
+    return errors.length;
+  }
+
+  const rows = [["#", "size", "bpp", "type", "offset", "bytes", "mask"]];
+  for (const entry of entries) {
+    rows.push([
+      String(entry.index),
+      `${entry.width}x${entry.height}`,
+      String(entry.bitCount),
+      entry.format.toUpperCase(),
+      String(entry.offset),
+      String(entry.size),
+      entry.format === "png" ? "-" : entry.hasMask ? "yes" : "no",
+    ]);
+  }
+  const widths = rows[0].map((_, col) =>
+    Math.max(...rows.map((row) => row[col].length))
+  );
+
+  const plural = (count: number, word: string) =>
+    `${count} ${word}${count === 1 ? "" : "s"}`;
+
+  console.log(
+    `${name}: ICO, ${plural(entries.length, "image")}, ${data.length} bytes\n`
+  );
+  for (const row of rows) {
+    const cells = row.map((cell, col) => cell.padEnd(widths[col]));
+    console.log(`  ${cells.join("  ").trimEnd()}`);
+  }
+  console.log("");
+
+  if (errors.length === 0) {
+    console.log("✅ No problems found");
+  } else {
+    console.log(`⚠️  ${plural(errors.length, "problem")}:`);
+    errors.forEach((error) => console.log(`  - ${error}`));
+  }
+
+  if (extractDir) {
+    fs.mkdirSync(extractDir, { recursive: true });
+    const base = path.basename(file, path.extname(file));
+    let extracted = 0;
+    for (const entry of entries) {
+      try {
+        const png = decodeIcoEntry(data, entry);
+        const outFile = path.join(
+          extractDir,
+          `${base}-${entry.index}-${entry.width}x${entry.height}.png`
+        );
+        fs.writeFileSync(outFile, png);
+        extracted++;
+      } catch (error) {
+        const message = (error as Error).message;
+        console.log(`⚠️  Could not extract entry ${entry.index}: ${message}`);
+      }
+    }
+    console.log(`\n📤 Extracted ${plural(extracted, "PNG")} to ${extractDir}`);
+  }
+
+  return errors.length;
+}
+
+/**
+ * `emojico inspect <file> [--extract <dir>]`
+ */
+function runInspect(args: string[]) {
+  if (args.includes("--help") || args.includes("-h")) {
+    printHelp();
+  }
+
+  let file = "";
+  let extractDir: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--extract" || args[i] === "-x") {
+      if (i + 1 < args.length) {
+        extractDir = args[++i];
+      } else {
+        console.error(`Error: ${args[i]} requires a directory argument.`);
+        process.exit(1);
+      }
+    } else if (!file && !args[i].startsWith("-")) {
+      file = args[i];
+    }
+  }
+
+  if (!file) {
+    console.error("Error: inspect requires a file argument.");
+    process.exit(1);
+  }
+  if (!fs.existsSync(file)) {
+    console.error(`Error: ${file} does not exist.`);
+    process.exit(1);
+  }
+
+  const problems = inspectFile(file, extractDir);
+  process.exit(problems > 0 ? 1 : 0);
+}
+
+// Parse arguments and run (only if this file is executed directly, not imported)
+if (require.main === module && process.argv[2] === "inspect") {
+  try {
+    runInspect(process.argv.slice(3));
+  } catch (error) {
+    console.error("Error:", (error as Error).message);
+    process.exit(1);
+  }
+} else if (require.main === module) {
+  const { emoji, outDir, configPath, useConfig, inject, preset, options } =
+    parseArgs();
+
+  (async () => {
+    const loaded = useConfig ? loadConfig(configPath) : undefined;
+    const {
+      emoji: configEmoji,
+      out,
+      inject: configInject,
+      preset: configPreset,
+      ...configOptions
+    } = loaded?.config ?? {};
+    const merged = mergeOptions(configOptions, options);
+    if (loaded) {
+      console.log(`Using config from ${loaded.source}`);
+    }
+
+    if (emoji || configEmoji) {
+      await generateFavicons(
+        emoji || configEmoji!,
+        outDir ?? out ?? ".",
+        merged,
+        inject ?? configInject,
+        preset ?? configPreset
+      );
+    } else {
+      const selectedEmoji = await interactiveEmojiPicker(merged.skinTone);
+      // Only a detected framework is a suggestion the folder can override
+      const askedPreset = preset ?? configPreset;
+      const selected = await interactiveFolderPrompt(
+        askedPreset ?? detectFramework(),
+        askedPreset === undefined
+      );
+      const selectedAll = await interactiveAllToggle();
+      console.log("");
+      // The picked emoji already has the tone chosen in the picker
+      await generateFavicons(
+        selectedEmoji,
+        selected.folder,
+        { ...merged, all: selectedAll, skinTone: undefined },
+        inject ?? configInject,
+        selected.preset
+      );
     }
   })().catch((error) => {
     console.error("Error:", error.message);